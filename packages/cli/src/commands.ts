@@ -0,0 +1,270 @@
+// ============================================
+// Claudeborne — Hook Management Subcommands
+// ============================================
+
+import { spawnSync } from 'node:child_process';
+import { createServer } from 'node:net';
+import { dirname } from 'node:path';
+import { createInterface } from 'node:readline/promises';
+import { HTTP_PORT } from '@claudeborne/shared';
+import {
+  HOOK_EVENTS,
+  HOOK_SCOPES,
+  inspectAllHooks,
+  installHooks,
+  isHookScope,
+  isPersistentCommand,
+  makeHookCommand,
+  removeHooks,
+  resolveTarget,
+  type HookScope,
+  type HookStatus,
+  type InstallOptions,
+} from './hooks.js';
+
+export const SUBCOMMANDS = ['install', 'uninstall', 'status', 'doctor'] as const;
+
+export type Subcommand = (typeof SUBCOMMANDS)[number];
+
+export function isSubcommand(name: string | undefined): name is Subcommand {
+  return SUBCOMMANDS.includes(name as Subcommand);
+}
+
+/**
+ * Run a hook management subcommand. Returns the process exit code.
+ */
+export async function runSubcommand(command: Subcommand, args: string[]): Promise<number> {
+  const scope = parseScope(args);
+  if (scope === null) return 1;
+
+  switch (command) {
+    case 'install':
+      // Standalone installs always persist — there is no server to clean up after
+      await installHooks({ persistent: true, scope });
+      console.log('  ⚔  Hooks stay installed until you run `claudeborne uninstall`.');
+      return 0;
+    case 'uninstall':
+      // Without --scope, clean up everywhere we've installed
+      await removeHooks(scope ? [resolveTarget(scope)] : undefined);
+      return 0;
+    case 'status':
+      return status();
+    case 'doctor':
+      return doctor(args.includes('--yes') || args.includes('-y'));
+  }
+}
+
+// ============================================
+// status
+// ============================================
+
+async function status(): Promise<number> {
+  const statuses = await inspectAllHooks();
+  const server = await probeServer();
+
+  for (const hooks of statuses) {
+    if (hooks.error) {
+      console.log(`  ⚔  ${hooks.scope.padEnd(8)} ${'unreadable'.padEnd(20)} ${hooks.settingsPath}`);
+      console.log(`     ${hooks.error}`);
+      continue;
+    }
+    const state = hooks.active ? (hooks.persistent ? 'active (persistent)' : 'active') : 'inactive';
+    console.log(`  ⚔  ${hooks.scope.padEnd(8)} ${state.padEnd(20)} ${hooks.settingsPath}`);
+    if (!hooks.active) continue;
+
+    for (const { event, commands } of hooks.events) {
+      const mark = commands.length > 0 ? '✓' : '✗';
+      const detail = commands.length === 0
+        ? 'not installed'
+        : commands.map((c) => (isPersistentCommand(c) ? 'persistent' : 'session')).join(', ');
+      console.log(`     ${mark} ${event.padEnd(16)} ${detail}`);
+    }
+  }
+  console.log(`  ⚔  Server: ${server ? `running on port ${HTTP_PORT}` : 'not running'}`);
+  return 0;
+}
+
+// ============================================
+// doctor
+// ============================================
+
+interface Problem {
+  description: string;
+  /** Undefined when the problem can't be fixed automatically */
+  repair?: { prompt: string; run: () => Promise<void> };
+  hint?: string;
+}
+
+async function doctor(assumeYes: boolean): Promise<number> {
+  const problems: Problem[] = [];
+  const all = await inspectAllHooks();
+  const statuses = all.filter((h) => h.active);
+  const server = await probeServer();
+
+  // Never repaired automatically — we won't write over a file we can't parse
+  for (const hooks of all.filter((h) => h.error)) {
+    problems.push({
+      description: hooks.error!,
+      hint: 'Fix the JSON by hand — backups of earlier versions are in ~/.claudeborne/backups/.',
+    });
+  }
+
+  if (!hasCurl()) {
+    problems.push({
+      description: 'curl is not on PATH — hooks cannot relay events',
+      hint: 'Install curl and make sure Claude Code can find it.',
+    });
+  }
+
+  if (!server && (await isPortInUse(HTTP_PORT))) {
+    problems.push({
+      description: `Port ${HTTP_PORT} is in use by another process`,
+      hint: `Stop whatever is listening on ${HTTP_PORT} before starting claudeborne.`,
+    });
+  }
+
+  for (const hooks of statuses) {
+    // Leftovers from a server that crashed or was killed before cleaning up
+    const installed = hooks.events.filter((e) => e.commands.length > 0);
+    const stale = installed.filter((e) => e.commands.some((c) => !isPersistentCommand(c)));
+    if (!server && stale.length > 0) {
+      problems.push({
+        description: `Stale ${hooks.scope}-scope hooks left by a server that is no longer running (${stale.map((e) => e.event).join(', ')})`,
+        repair: {
+          prompt: 'Remove them?',
+          run: async () => {
+            await removeHooks([{ scope: hooks.scope, path: hooks.settingsPath }]);
+            // Keep the user's permanent install, minus the leftovers
+            if (hooks.persistent) await installHooks({ ...targetOptions(hooks), persistent: true });
+          },
+        },
+      });
+    } else {
+      problems.push(...checkEntries(hooks));
+    }
+  }
+
+  // Expected with a permanent install, so worth a note but not a failure
+  if (!server && statuses.some((h) => h.persistent)) {
+    console.log(`  ⚔  Server unreachable on http://localhost:${HTTP_PORT} — events are dropped until you run \`npx claudeborne\`.`);
+  }
+
+  if (problems.length === 0) {
+    console.log('  ⚔  No problems found.');
+    return 0;
+  }
+
+  const interactive = process.stdin.isTTY && !assumeYes;
+  const rl = interactive ? createInterface({ input: process.stdin, output: process.stdout }) : null;
+  let unresolved = 0;
+
+  try {
+    for (const problem of problems) {
+      console.log(`  ✗  ${problem.description}`);
+      if (problem.hint) console.log(`     ${problem.hint}`);
+      if (!problem.repair) {
+        unresolved++;
+        continue;
+      }
+
+      let accept = assumeYes;
+      if (rl) {
+        const answer = await rl.question(`     ${problem.repair.prompt} [y/N] `);
+        accept = /^y(es)?$/i.test(answer.trim());
+      } else if (!assumeYes) {
+        console.log('     Run `claudeborne doctor --yes` to repair.');
+      }
+
+      if (accept) {
+        await problem.repair.run();
+      } else {
+        unresolved++;
+      }
+    }
+  } finally {
+    rl?.close();
+  }
+
+  return unresolved > 0 ? 1 : 0;
+}
+
+/** Duplicated, missing or outdated entries among live hooks */
+function checkEntries(hooks: HookStatus): Problem[] {
+  const problems: Problem[] = [];
+  const installed = hooks.events.filter((e) => e.commands.length > 0);
+  const reinstall = async () => {
+    await installHooks({ ...targetOptions(hooks), persistent: hooks.persistent });
+  };
+
+  const duplicated = installed.filter((e) => e.commands.length > 1);
+  if (duplicated.length > 0) {
+    problems.push({
+      description: `Duplicate claudeborne entries in ${hooks.scope} scope (${duplicated.map((e) => e.event).join(', ')})`,
+      repair: { prompt: 'Reinstall a single entry per event?', run: reinstall },
+    });
+  }
+
+  const missing = HOOK_EVENTS.filter((event) => !installed.some((e) => e.event === event));
+  const outdated = installed.filter((e) =>
+    e.commands.some((c) => c !== makeHookCommand({ persistent: isPersistentCommand(c) }))
+  );
+  if (installed.length > 0 && (missing.length > 0 || outdated.length > 0)) {
+    const which = [...missing, ...outdated.map((e) => e.event)];
+    problems.push({
+      description: `Incomplete or outdated ${hooks.scope}-scope hooks (${which.join(', ')})`,
+      repair: { prompt: 'Reinstall them?', run: reinstall },
+    });
+  }
+
+  return problems;
+}
+
+/** Install options that write back to the same settings file */
+function targetOptions(hooks: HookStatus): InstallOptions {
+  // Project and local settings live in <project>/.claude/
+  return { scope: hooks.scope, projectDir: dirname(dirname(hooks.settingsPath)) };
+}
+
+/**
+ * Read `--scope <user|project|local>`. Returns undefined when absent,
+ * null (after reporting) when invalid.
+ */
+function parseScope(args: string[]): HookScope | undefined | null {
+  const i = args.indexOf('--scope');
+  if (i === -1) return undefined;
+  const value = args[i + 1];
+  if (isHookScope(value)) return value;
+  console.error(`  ⚔  Invalid --scope "${value ?? ''}" (expected ${HOOK_SCOPES.join(', ')})`);
+  return null;
+}
+
+// ============================================
+// Probes
+// ============================================
+
+function hasCurl(): boolean {
+  const result = spawnSync('curl', ['--version'], { stdio: 'ignore' });
+  return !result.error && result.status === 0;
+}
+
+/** Whether a claudeborne server answers its health check */
+async function probeServer(): Promise<boolean> {
+  try {
+    const res = await fetch(`http://127.0.0.1:${HTTP_PORT}/health`, {
+      signal: AbortSignal.timeout(1000),
+    });
+    const body = (await res.json()) as { status?: string };
+    return body.status === 'alive';
+  } catch {
+    return false;
+  }
+}
+
+function isPortInUse(port: number): Promise<boolean> {
+  return new Promise((resolve) => {
+    const probe = createServer();
+    probe.once('error', () => resolve(true));
+    probe.once('listening', () => probe.close(() => resolve(false)));
+    probe.listen(port);
+  });
+}
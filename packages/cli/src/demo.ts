@@ -11,6 +11,10 @@ const DEMO_SEQUENCE: Array<{ event: ClaudeEvent; delayMs: number }> = [
     event: { type: 'session_start', timestamp: 0 },
     delayMs: 2000,
   },
+  {
+    event: { type: 'prompt_submit', timestamp: 0 },
+    delayMs: 2500,
+  },
   {
     event: { type: 'thinking', timestamp: 0, message: 'Analyzing the codebase...' },
     delayMs: 4000,
@@ -19,15 +23,32 @@ const DEMO_SEQUENCE: Array<{ event: ClaudeEvent; delayMs: number }> = [
     event: {
       type: 'tool_use',
       timestamp: 0,
-      tool: { name: 'Read', category: categorizeToolName('Read') },
+      tool: { name: 'Read', category: categorizeToolName('Read'), id: 'demo-read' },
     },
-    delayMs: 3000,
+    delayMs: 1000,
+  },
+  // A second call in parallel — both stay on screen until they return
+  {
+    event: {
+      type: 'tool_use',
+      timestamp: 0,
+      tool: { name: 'Grep', category: categorizeToolName('Grep'), id: 'demo-grep' },
+    },
+    delayMs: 2000,
   },
   {
     event: {
       type: 'tool_result',
       timestamp: 0,
-      tool: { name: 'Read', category: categorizeToolName('Read') },
+      tool: { name: 'Grep', category: categorizeToolName('Grep'), id: 'demo-grep' },
+    },
+    delayMs: 1500,
+  },
+  {
+    event: {
+      type: 'tool_result',
+      timestamp: 0,
+      tool: { name: 'Read', category: categorizeToolName('Read'), id: 'demo-read' },
     },
     delayMs: 1500,
   },
@@ -51,6 +72,14 @@ const DEMO_SEQUENCE: Array<{ event: ClaudeEvent; delayMs: number }> = [
     },
     delayMs: 1500,
   },
+  {
+    event: {
+      type: 'awaiting_input',
+      timestamp: 0,
+      message: 'Claude needs your permission to use Bash',
+    },
+    delayMs: 4000,
+  },
   {
     event: {
       type: 'tool_use',
@@ -83,13 +112,29 @@ const DEMO_SEQUENCE: Array<{ event: ClaudeEvent; delayMs: number }> = [
     },
     delayMs: 1500,
   },
+  {
+    event: {
+      type: 'tool_use',
+      timestamp: 0,
+      tool: { name: 'Task', category: categorizeToolName('Task') },
+    },
+    delayMs: 4000,
+  },
+  {
+    event: { type: 'subagent_stop', timestamp: 0 },
+    delayMs: 3000,
+  },
+  {
+    event: { type: 'compact', timestamp: 0, message: 'auto' },
+    delayMs: 5000,
+  },
   {
     event: { type: 'thinking', timestamp: 0, message: 'Reviewing changes...' },
     delayMs: 3000,
   },
   {
     event: {
-      type: 'assistant_response',
+      type: 'victory',
       timestamp: 0,
       message: 'All changes have been applied successfully.',
     },
@@ -0,0 +1,101 @@
+// ============================================
+// Claudeborne — Tool Failure Detection
+// ============================================
+
+import type { ErrorSeverity, PostToolUsePayload } from '@claudeborne/shared';
+
+export interface ToolFailure {
+  severity: ErrorSeverity;
+  /** Short description for logs, e.g. "exit code 1" */
+  reason: string;
+}
+
+/** The user (or a permission rule) refused the tool call, or the OS refused the command */
+const DENIED_PATTERNS = [
+  /permission (to use \S+ )?(has been |was )?denied/i,
+  /doesn't want to proceed/i,
+  /tool use was rejected/i,
+];
+
+const EDIT_NOT_FOUND_PATTERN = /string to replace not found|old_string.*not found/i;
+
+const EDIT_TOOLS = new Set(['edit', 'multiedit', 'notebookedit']);
+
+/**
+ * Tools that report failure as a bare string response. Any other string
+ * response is output — file contents, command output, MCP text.
+ */
+const STRING_ERROR_TOOLS = EDIT_TOOLS;
+
+/** Exit codes from the shell itself: not executable, not found, killed by a signal */
+const SEVERE_EXIT_CODE = 126;
+
+/**
+ * Decide whether a PostToolUse payload describes a failed tool call.
+ *
+ * Only error-ish fields are inspected (never stdout or file contents),
+ * so a file that merely mentions "permission denied" isn't a failure.
+ */
+export function detectToolFailure(payload: PostToolUsePayload): ToolFailure | null {
+  const response = payload.tool_response;
+  const tool = payload.tool_name.toLowerCase();
+  const errorText = errorTextOf(response, tool);
+
+  if (DENIED_PATTERNS.some((p) => p.test(errorText))) {
+    return { severity: 'severe', reason: 'permission denied' };
+  }
+  if (EDIT_TOOLS.has(tool) && EDIT_NOT_FOUND_PATTERN.test(errorText)) {
+    return { severity: 'minor', reason: 'old_string not found' };
+  }
+  if (!isRecord(response)) return null;
+
+  const exitCode = [response.exit_code, response.exitCode, response.returnCode]
+    .find((c): c is number => typeof c === 'number');
+  if (exitCode !== undefined && exitCode !== 0) {
+    return {
+      severity: exitCode >= SEVERE_EXIT_CODE ? 'severe' : 'minor',
+      reason: `exit code ${exitCode}`,
+    };
+  }
+
+  if (response.interrupted === true) {
+    return { severity: 'minor', reason: 'interrupted' };
+  }
+
+  if (tool === 'bash' && stringField(response, 'stderr').trim() && !stringField(response, 'stdout').trim()) {
+    return { severity: 'minor', reason: 'stderr only' };
+  }
+
+  if (response.is_error === true || response.isError === true || response.success === false || stringField(response, 'error')) {
+    return { severity: 'minor', reason: firstLine(stringField(response, 'error')) || 'tool reported an error' };
+  }
+
+  return null;
+}
+
+/**
+ * The parts of a tool response that carry an error message: `error` and
+ * `stderr`, the message of a response flagged `is_error`, and the whole
+ * of a string response from a tool known to fail that way.
+ */
+function errorTextOf(response: unknown, tool: string): string {
+  if (typeof response === 'string') return STRING_ERROR_TOOLS.has(tool) ? response : '';
+  if (!isRecord(response)) return '';
+  const keys = ['error', 'stderr'];
+  if (response.is_error === true || response.isError === true) keys.push('message', 'content');
+  return keys.map((key) => stringField(response, key)).join('\n');
+}
+
+function stringField(record: Record<string, unknown>, key: string): string {
+  const value = record[key];
+  return typeof value === 'string' ? value : '';
+}
+
+function firstLine(text: string): string {
+  const line = text.trim().split('\n')[0] ?? '';
+  return line.length > 80 ? `${line.slice(0, 77)}...` : line;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
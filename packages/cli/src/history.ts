@@ -0,0 +1,68 @@
+// ============================================
+// Claudeborne — Recent Events and State Snapshot
+// ============================================
+
+import {
+  getSessionId,
+  type ClaudeEvent,
+  type SessionSnapshot,
+  type StateSnapshot,
+} from '@claudeborne/shared';
+
+/** Recent events kept for newly connected browsers */
+const DEFAULT_CAPACITY = 100;
+
+/**
+ * Everything a browser needs to catch up when it connects mid-session:
+ * a bounded ring buffer of recent events, plus where each session stands
+ * (its latest event, the tool calls in flight, running counts).
+ */
+export class EventHistory {
+  private buffer: ClaudeEvent[] = [];
+  /** Index of the oldest event once the buffer is full */
+  private head = 0;
+  private sessions = new Map<string, SessionSnapshot>();
+  private eventCount = 0;
+
+  constructor(private capacity: number = DEFAULT_CAPACITY) {}
+
+  /** Record a broadcast event */
+  record(event: ClaudeEvent): void {
+    this.eventCount++;
+    if (this.buffer.length < this.capacity) {
+      this.buffer.push(event);
+    } else {
+      this.buffer[this.head] = event;
+      this.head = (this.head + 1) % this.capacity;
+    }
+
+    const id = getSessionId(event);
+    if (event.type === 'session_end') {
+      this.sessions.delete(id);
+      return;
+    }
+
+    let session = this.sessions.get(id);
+    if (!session) {
+      session = { id, lastEvent: event, openCalls: [], eventCount: 0, toolCalls: 0, errors: 0 };
+      this.sessions.set(id, session);
+    }
+    if (event.session?.cwd) session.cwd = event.session.cwd;
+    session.lastEvent = event;
+    session.eventCount++;
+
+    // Kept up to date by the ToolCallTracker on every event that changes them
+    if (event.openCalls) session.openCalls = event.openCalls;
+    if (event.type === 'tool_use') session.toolCalls++;
+    if (event.type === 'error') session.errors++;
+  }
+
+  snapshot(): StateSnapshot {
+    return {
+      sessions: [...this.sessions.values()].map((s) => ({ ...s })),
+      recent: [...this.buffer.slice(this.head), ...this.buffer.slice(0, this.head)],
+      eventCount: this.eventCount,
+      serverTime: Date.now(),
+    };
+  }
+}
@@ -3,32 +3,97 @@
 // ============================================
 
 import { readFile, writeFile, mkdir } from 'node:fs/promises';
-import { readFileSync, writeFileSync, mkdirSync } from 'node:fs';
+import { readFileSync, writeFileSync } from 'node:fs';
 import { homedir } from 'node:os';
-import { join } from 'node:path';
-import { HTTP_PORT } from '@claudeborne/shared';
+import { dirname, join, resolve } from 'node:path';
+import { HTTP_PORT, type HookEventName } from '@claudeborne/shared';
+import { editSettings, editSettingsSync, loadSettings } from './settings.js';
+import { TOKEN_HEADER } from './security.js';
 
-const SETTINGS_PATH = join(homedir(), '.claude', 'settings.json');
 const MARKER = 'claudeborne';
+// Appended to the URL of hooks that should outlive the server process
+const PERSISTENT_MARKER = 'mode=persistent';
+
+/**
+ * Where Claude Code reads settings from:
+ *   user:    ~/.claude/settings.json            (every project)
+ *   project: <project>/.claude/settings.json     (checked in, shared)
+ *   local:   <project>/.claude/settings.local.json (this machine only)
+ */
+export type HookScope = 'user' | 'project' | 'local';
+
+export const HOOK_SCOPES: readonly HookScope[] = ['user', 'project', 'local'];
+
+export function isHookScope(value: string | undefined): value is HookScope {
+  return HOOK_SCOPES.includes(value as HookScope);
+}
+
+/** A concrete settings file hooks can be installed into */
+export interface HookTarget {
+  scope: HookScope;
+  path: string;
+}
+
+/** Resolve the settings file for a scope, relative to a project directory */
+export function resolveTarget(scope: HookScope, projectDir: string = process.cwd()): HookTarget {
+  switch (scope) {
+    case 'user':
+      return { scope, path: join(homedir(), '.claude', 'settings.json') };
+    case 'project':
+      return { scope, path: join(resolve(projectDir), '.claude', 'settings.json') };
+    case 'local':
+      return { scope, path: join(resolve(projectDir), '.claude', 'settings.local.json') };
+  }
+}
+
+// Every settings file we have ever installed into, so removal can find
+// project-scoped installs made from other directories.
+const INSTALLS_PATH = join(homedir(), '.claudeborne', 'installs.json');
+
+export interface InstallOptions {
+  /**
+   * Leave the hooks in place when the server exits, so sessions started
+   * before (or without) the visualizer are still relayed once it runs.
+   */
+  persistent?: boolean;
+  /** Settings scope to install into (default: user) */
+  scope?: HookScope;
+  /** Project directory for project/local scopes (default: cwd) */
+  projectDir?: string;
+}
 
 // The curl command each hook uses to relay stdin JSON to our HTTP server.
 // We include "claudeborne" in the URL query so we can identify our hooks later.
-function makeHookCommand(): string {
-  return `curl -s -X POST "http://localhost:${HTTP_PORT}/event?source=${MARKER}" -H 'Content-Type: application/json' -d @- 2>/dev/null || true`;
+// The server's per-run token is read when the hook fires, so the command
+// itself never goes stale (see security.ts).
+export function makeHookCommand(options: InstallOptions = {}): string {
+  const query = options.persistent ? `source=${MARKER}&${PERSISTENT_MARKER}` : `source=${MARKER}`;
+  const token = `-H "${TOKEN_HEADER}: $(cat "$HOME/.claudeborne/token" 2>/dev/null)"`;
+  return `curl -s -X POST "http://127.0.0.1:${HTTP_PORT}/event?${query}" -H 'Content-Type: application/json' ${token} -d @- 2>/dev/null || true`;
 }
 
 /**
  * Claude Code hooks use a nested format:
  * { "hooks": [{ "type": "command", "command": "..." }], "matcher"?: "..." }
  */
-function makeHookEntry() {
+function makeHookEntry(options: InstallOptions = {}) {
   return {
-    hooks: [{ type: 'command' as const, command: makeHookCommand() }],
+    hooks: [{ type: 'command' as const, command: makeHookCommand(options) }],
   };
 }
 
-/** Hook event names Claude Code supports */
-const HOOK_EVENTS = ['PreToolUse', 'PostToolUse', 'Notification', 'Stop'] as const;
+/** Hook events claudeborne installs a relay for */
+export const HOOK_EVENTS: readonly HookEventName[] = [
+  'SessionStart',
+  'SessionEnd',
+  'UserPromptSubmit',
+  'PreToolUse',
+  'PostToolUse',
+  'Notification',
+  'Stop',
+  'SubagentStop',
+  'PreCompact',
+];
 
 interface HookCommandEntry {
   type?: string;
@@ -57,127 +122,240 @@ function isOurHook(entry: HookGroupEntry): boolean {
   return typeof entry.command === 'string' && entry.command.includes(MARKER);
 }
 
-async function readSettings(): Promise<Record<string, unknown>> {
+/** The claudeborne commands found in a hook entry (either format) */
+function ourCommands(entry: HookGroupEntry): string[] {
+  const commands = Array.isArray(entry.hooks)
+    ? entry.hooks.map((h) => h.command)
+    : [entry.command];
+  return commands.filter(
+    (c): c is string => typeof c === 'string' && c.includes(MARKER)
+  );
+}
+
+/** What claudeborne has installed for a single hook event */
+export interface HookEventStatus {
+  event: HookEventName;
+  /** Every claudeborne command registered for this event */
+  commands: string[];
+}
+
+export interface HookStatus {
+  scope: HookScope;
+  settingsPath: string;
+  events: HookEventStatus[];
+  /** True if any hook event carries a claudeborne entry */
+  active: boolean;
+  /** True if any installed hook is marked persistent */
+  persistent: boolean;
+  /** Set when the settings file could not be read or parsed */
+  error?: string;
+}
+
+/**
+ * Report which hook events carry a claudeborne entry in one settings
+ * file, without modifying anything.
+ */
+export async function inspectHooks(target: HookTarget = resolveTarget('user')): Promise<HookStatus> {
+  let settings: Record<string, unknown>;
   try {
-    const raw = await readFile(SETTINGS_PATH, 'utf-8');
-    return JSON.parse(raw) as Record<string, unknown>;
-  } catch {
-    return {};
+    settings = await loadSettings(target.path);
+  } catch (err) {
+    return {
+      scope: target.scope,
+      settingsPath: target.path,
+      events: HOOK_EVENTS.map((event) => ({ event, commands: [] })),
+      active: false,
+      persistent: false,
+      error: err instanceof Error ? err.message : String(err),
+    };
   }
-}
+  const hooks = (settings.hooks && typeof settings.hooks === 'object'
+    ? settings.hooks
+    : {}) as Record<string, unknown>;
 
-async function writeSettings(settings: Record<string, unknown>): Promise<void> {
-  // Ensure the directory exists
-  await mkdir(join(homedir(), '.claude'), { recursive: true });
-  await writeFile(SETTINGS_PATH, JSON.stringify(settings, null, 2) + '\n', 'utf-8');
+  const events = HOOK_EVENTS.map((event) => {
+    const entries = Array.isArray(hooks[event]) ? hooks[event] as HookGroupEntry[] : [];
+    return { event, commands: entries.flatMap(ourCommands) };
+  });
+
+  return {
+    scope: target.scope,
+    settingsPath: target.path,
+    events,
+    active: events.some((e) => e.commands.length > 0),
+    persistent: events.some((e) => e.commands.some(isPersistentCommand)),
+  };
 }
 
 /**
- * Install claudeborne hooks into ~/.claude/settings.json.
- * Merges with existing hooks — does not overwrite user config.
+ * Inspect every scope for the given project, plus any other settings
+ * file claudeborne has installed into.
  */
-export async function installHooks(): Promise<void> {
-  const settings = await readSettings();
+export async function inspectAllHooks(projectDir: string = process.cwd()): Promise<HookStatus[]> {
+  const targets = await knownTargets(projectDir);
+  return Promise.all(targets.map((t) => inspectHooks(t)));
+}
 
-  // Ensure hooks object exists
-  if (!settings.hooks || typeof settings.hooks !== 'object') {
-    settings.hooks = {};
-  }
-  const hooks = settings.hooks as Record<string, unknown[]>;
+/** Whether a hook command was installed to outlive the server */
+export function isPersistentCommand(command: string): boolean {
+  return command.includes(PERSISTENT_MARKER);
+}
 
-  for (const eventName of HOOK_EVENTS) {
-    if (!Array.isArray(hooks[eventName])) {
-      hooks[eventName] = [];
+/**
+ * Install claudeborne hooks into the settings file for the chosen scope
+ * (~/.claude/settings.json by default).
+ * Merges with existing hooks — does not overwrite user config, and
+ * refuses to write at all if the existing file can't be parsed.
+ */
+export async function installHooks(options: InstallOptions = {}): Promise<HookTarget> {
+  const target = resolveTarget(options.scope ?? 'user', options.projectDir);
+
+  await editSettings(target.path, (settings) => {
+    // Ensure hooks object exists
+    if (!settings.hooks || typeof settings.hooks !== 'object') {
+      settings.hooks = {};
     }
+    const hooks = settings.hooks as Record<string, unknown[]>;
 
-    // Remove any existing claudeborne hooks first (idempotent)
-    hooks[eventName] = hooks[eventName].filter(
-      (h: unknown) => !isOurHook(h as HookGroupEntry)
-    );
+    for (const eventName of HOOK_EVENTS) {
+      if (!Array.isArray(hooks[eventName])) {
+        hooks[eventName] = [];
+      }
 
-    // Add our hook
-    hooks[eventName].push(makeHookEntry());
-  }
+      // Remove any existing claudeborne hooks first (idempotent)
+      hooks[eventName] = hooks[eventName].filter(
+        (h: unknown) => !isOurHook(h as HookGroupEntry)
+      );
+
+      // Add our hook
+      hooks[eventName].push(makeHookEntry(options));
+    }
+    return true;
+  });
 
-  settings.hooks = hooks;
-  await writeSettings(settings);
-  console.log(`  ⚔  Hooks installed in ${SETTINGS_PATH}`);
+  await recordInstall(target);
+  console.log(`  ⚔  ${options.persistent ? 'Persistent hooks' : 'Hooks'} installed in ${target.path} (${target.scope} scope)`);
+  return target;
 }
 
 /**
- * Remove claudeborne hooks from ~/.claude/settings.json.
- * Preserves all other user hooks and settings.
+ * Strip claudeborne hooks from a parsed settings object in place.
+ * Returns false if there was nothing to remove.
  */
-export async function removeHooks(): Promise<void> {
-  let settings: Record<string, unknown>;
-  try {
-    settings = await readSettings();
-  } catch {
-    // If we can't read settings, nothing to remove
-    return;
-  }
-
+function stripOurHooks(settings: Record<string, unknown>): boolean {
   if (!settings.hooks || typeof settings.hooks !== 'object') {
-    return;
+    return false;
   }
   const hooks = settings.hooks as Record<string, unknown[]>;
+  let changed = false;
 
-  for (const eventName of HOOK_EVENTS) {
+  for (const eventName of Object.keys(hooks)) {
     if (!Array.isArray(hooks[eventName])) continue;
 
-    hooks[eventName] = hooks[eventName].filter(
+    const kept = hooks[eventName].filter(
       (h: unknown) => !isOurHook(h as HookGroupEntry)
     );
+    if (kept.length === hooks[eventName].length) continue;
+    changed = true;
 
     // Clean up empty arrays
-    if (hooks[eventName].length === 0) {
+    if (kept.length === 0) {
       delete hooks[eventName];
+    } else {
+      hooks[eventName] = kept;
     }
   }
 
   // Clean up empty hooks object
   if (Object.keys(hooks).length === 0) {
     delete settings.hooks;
-  } else {
-    settings.hooks = hooks;
   }
+  return changed;
+}
 
-  await writeSettings(settings);
-  console.log(`  ⚔  Hooks removed from ${SETTINGS_PATH}`);
+/**
+ * Remove claudeborne hooks from the given settings files — by default,
+ * every scope of the current project plus every file we've installed into.
+ * Preserves all other user hooks and settings.
+ */
+export async function removeHooks(targets?: HookTarget[]): Promise<void> {
+  for (const target of targets ?? await knownTargets()) {
+    try {
+      if (await editSettings(target.path, stripOurHooks)) {
+        console.log(`  ⚔  Hooks removed from ${target.path} (${target.scope} scope)`);
+      }
+      await forgetInstall(target);
+    } catch (err) {
+      // Unparseable or contended file — leave it exactly as it is
+      console.error(`  ⚔  Warning: Could not remove hooks from ${target.path}:`, err instanceof Error ? err.message : err);
+    }
+  }
 }
 
 /**
  * Synchronous version of removeHooks for use in signal handlers
  * where async operations may not complete before process exit.
  */
-export function removeHooksSync(): void {
+export function removeHooksSync(targets: HookTarget[]): void {
+  for (const target of targets) {
+    try {
+      if (editSettingsSync(target.path, stripOurHooks)) {
+        console.log(`  ⚔  Hooks removed from ${target.path} (${target.scope} scope)`);
+      }
+      forgetInstallSync(target);
+    } catch (err) {
+      console.error(`  ⚔  Warning: Could not remove hooks from ${target.path}:`, err instanceof Error ? err.message : err);
+    }
+  }
+}
+
+// ============================================
+// Install registry (~/.claudeborne/installs.json)
+// ============================================
+
+async function readInstalls(): Promise<HookTarget[]> {
   try {
-    const raw = readFileSync(SETTINGS_PATH, 'utf-8');
-    const settings = JSON.parse(raw) as Record<string, unknown>;
+    const raw = await readFile(INSTALLS_PATH, 'utf-8');
+    const parsed = JSON.parse(raw) as unknown;
+    return Array.isArray(parsed)
+      ? parsed.filter((t): t is HookTarget => isHookScope(t?.scope) && typeof t?.path === 'string')
+      : [];
+  } catch {
+    return [];
+  }
+}
 
-    if (!settings.hooks || typeof settings.hooks !== 'object') return;
-    const hooks = settings.hooks as Record<string, unknown[]>;
+async function recordInstall(target: HookTarget): Promise<void> {
+  const installs = await readInstalls();
+  if (installs.some((t) => t.path === target.path)) return;
+  await mkdir(dirname(INSTALLS_PATH), { recursive: true });
+  await writeFile(INSTALLS_PATH, JSON.stringify([...installs, target], null, 2) + '\n', 'utf-8');
+}
 
-    for (const eventName of HOOK_EVENTS) {
-      if (!Array.isArray(hooks[eventName])) continue;
-      hooks[eventName] = hooks[eventName].filter(
-        (h: unknown) => !isOurHook(h as HookGroupEntry)
-      );
-      if (hooks[eventName].length === 0) {
-        delete hooks[eventName];
-      }
-    }
+async function forgetInstall(target: HookTarget): Promise<void> {
+  const installs = await readInstalls();
+  const kept = installs.filter((t) => t.path !== target.path);
+  if (kept.length === installs.length) return;
+  await writeFile(INSTALLS_PATH, JSON.stringify(kept, null, 2) + '\n', 'utf-8');
+}
 
-    if (Object.keys(hooks).length === 0) {
-      delete settings.hooks;
-    } else {
-      settings.hooks = hooks;
-    }
+function forgetInstallSync(target: HookTarget): void {
+  try {
+    const installs = JSON.parse(readFileSync(INSTALLS_PATH, 'utf-8')) as HookTarget[];
+    const kept = installs.filter((t) => t.path !== target.path);
+    writeFileSync(INSTALLS_PATH, JSON.stringify(kept, null, 2) + '\n', 'utf-8');
+  } catch {
+    // Registry missing or unreadable — nothing to forget
+  }
+}
 
-    mkdirSync(join(homedir(), '.claude'), { recursive: true });
-    writeFileSync(SETTINGS_PATH, JSON.stringify(settings, null, 2) + '\n', 'utf-8');
-    console.log(`  ⚔  Hooks removed from ${SETTINGS_PATH}`);
-  } catch (err) {
-    console.error('  ⚔  Warning: Could not remove hooks:', err);
+/** The current project's scopes plus every recorded install, deduplicated by path */
+async function knownTargets(projectDir: string = process.cwd()): Promise<HookTarget[]> {
+  const targets = HOOK_SCOPES.map((scope) => resolveTarget(scope, projectDir));
+  for (const recorded of await readInstalls()) {
+    if (!targets.some((t) => t.path === recorded.path)) {
+      targets.push(recorded);
+    }
   }
+  return targets;
 }
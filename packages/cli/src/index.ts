@@ -1,44 +1,169 @@
 #!/usr/bin/env node
 
-import express from 'express';
+import express, { type NextFunction, type Request, type Response } from 'express';
 import { WebSocketServer, WebSocket } from 'ws';
-import { createServer } from 'http';
+import { createServer, type IncomingMessage } from 'http';
 import { fileURLToPath } from 'url';
 import path from 'path';
 import open from 'open';
 import {
   HTTP_PORT,
+  PROTOCOL_VERSION,
   SCENES,
-  categorizeToolName,
+  WS_CLOSE_INCOMPATIBLE,
+  WS_CLOSE_NO_HELLO,
+  describeProtocolMismatch,
+  getSessionLabel,
+  isSceneId,
+  parseClientMessage,
   type ClaudeEvent,
-  type ClaudeEventType,
-  type WsMessage,
+  type ClientMessage,
+  type ProtocolErrorPayload,
   type SceneId,
+  type SceneInitPayload,
+  type ServerMessage,
 } from '@claudeborne/shared';
-import { installHooks, removeHooksSync } from './hooks.js';
+import {
+  HOOK_SCOPES,
+  inspectHooks,
+  installHooks,
+  isHookScope,
+  removeHooksSync,
+  resolveTarget,
+  type HookScope,
+  type HookTarget,
+} from './hooks.js';
+import { isSubcommand, runSubcommand } from './commands.js';
+import { describePayload, normalizeHookPayload } from './normalize.js';
+import { EventHistory } from './history.js';
+import { MappingRules } from './mappings.js';
+import { DEFAULT_VICTORY_THRESHOLDS, TurnTracker, type VictoryThresholds } from './outcomes.js';
 import { startDemo } from './demo.js';
+import { SceneResolver } from './scenes.js';
+import {
+  DEFAULT_HOST,
+  MAX_BODY_SIZE,
+  TOKEN_HEADER,
+  createRunToken,
+  hasValidToken,
+  isAllowedHost,
+  isAllowedOrigin,
+} from './security.js';
+import { SessionRegistry } from './sessions.js';
+import { ToolCallTracker } from './toolcalls.js';
+import { EventJournal, JOURNAL_DIR } from './journal.js';
+import { loadJournal, parseSpeed, startReplay } from './replay.js';
 
 // ============================================
 // CLI Arg Parsing
 // ============================================
 
 const args = process.argv.slice(2);
+
+// Hook management subcommands run and exit without starting the server
+if (isSubcommand(args[0])) {
+  try {
+    process.exit(await runSubcommand(args[0], args.slice(1)));
+  } catch (err) {
+    console.error(`  ⚔  ${args[0]} failed:`, err);
+    process.exit(1);
+  }
+}
+
 const demoMode = args.includes('--demo');
 const noOpen = args.includes('--no-open');
+const keepHooksFlag = args.includes('--keep-hooks');
+const scopeArg = argValue('--scope') ?? 'user';
+const replayFile = argValue('--replay');
+const replaySpeed = parseSpeed(argValue('--speed') ?? '1x');
+const sceneArg = argValue('--scene');
+const hostArg = argValue('--host');
+// Only live events are journaled — never demo or replayed ones
+const journalEnabled = !demoMode && !replayFile && !args.includes('--no-journal');
+
+/** Value following a flag, e.g. `--replay <file>` */
+function argValue(flag: string): string | undefined {
+  const i = args.indexOf(flag);
+  return i !== -1 ? args[i + 1] : undefined;
+}
+
+/** Non-negative integer following a flag, or the fallback when absent */
+function countArg(flag: string, fallback: number): number {
+  const raw = argValue(flag);
+  if (raw === undefined) return fallback;
+  const n = Number(raw);
+  if (!Number.isInteger(n) || n < 0) {
+    console.error(`  ⚔  Invalid ${flag} "${raw}" (expected a whole number, 0 to disable)`);
+    process.exit(1);
+  }
+  return n;
+}
+
+const victoryThresholds: VictoryThresholds = {
+  minEdits: countArg('--victory-edits', DEFAULT_VICTORY_THRESHOLDS.minEdits),
+  minPassingTests: countArg('--victory-tests', DEFAULT_VICTORY_THRESHOLDS.minPassingTests),
+  cooldownMs: countArg('--victory-cooldown', DEFAULT_VICTORY_THRESHOLDS.cooldownMs / 1000) * 1000,
+};
+
+if (args.includes('--replay') && !replayFile) {
+  console.error('  ⚔  --replay needs a journal file, e.g. --replay ~/.claudeborne/sessions/<session>.jsonl');
+  process.exit(1);
+}
+if (!isHookScope(scopeArg)) {
+  console.error(`  ⚔  Invalid --scope "${scopeArg}" (expected ${HOOK_SCOPES.join(', ')})`);
+  process.exit(1);
+}
+const hookScope: HookScope = scopeArg;
+if (args.includes('--scene') && !isSceneId(sceneArg)) {
+  console.error(`  ⚔  Invalid --scene "${sceneArg ?? ''}" (expected ${SCENES.map((s) => s.id).join(', ')})`);
+  process.exit(1);
+}
+const forcedScene: SceneId | null = isSceneId(sceneArg) ? sceneArg : null;
+if (args.includes('--host') && (!hostArg || hostArg.startsWith('--'))) {
+  console.error('  ⚔  --host needs an address to listen on, e.g. --host 0.0.0.0');
+  process.exit(1);
+}
+/** Loopback only, unless the user opts in to being reachable from the LAN */
+const bindHost = hostArg ?? DEFAULT_HOST;
+const WILDCARD_HOSTS = new Set(['0.0.0.0', '::']);
+/** Where this machine's own browser reaches the server */
+const localUrl = `http://${WILDCARD_HOSTS.has(bindHost) || bindHost === DEFAULT_HOST ? 'localhost' : bindHost}:${HTTP_PORT}`;
+if (replaySpeed === null) {
+  console.error(`  ⚔  Invalid --speed "${argValue('--speed')}" (expected e.g. 2x, 0.5x)`);
+  process.exit(1);
+}
 
 // ============================================
 // State
 // ============================================
 
 const clients = new Set<WebSocket>();
-let currentScene: SceneId = 'firelink-shrine';
+let currentScene: SceneId = forcedScene ?? 'firelink-shrine';
+/** Project the current scene was chosen for, shown on its title card */
+let currentProject: string | undefined;
+/** Same project, same scene — see scenes.ts */
+const sceneResolver = new SceneResolver(forcedScene);
+/** Bodies POSTed to /event that matched no known shape */
+let unknownPayloads = 0;
+/** Per-run secret required to post events, written to ~/.claudeborne/token at startup */
+let runToken: string | null = null;
 
 // ============================================
 // HTTP Server + Static File Serving
 // ============================================
 
 const app = express();
-app.use(express.json());
+
+// Only answer to names that mean this machine (or the --host given), so
+// a rebound DNS name can't reach us from someone else's page
+app.use((req, res, next) => {
+  if (isAllowedHost(req.headers.host, bindHost)) {
+    next();
+    return;
+  }
+  res.status(421).json({ ok: false, error: 'Unrecognized Host' });
+});
+app.use(express.json({ limit: MAX_BODY_SIZE }));
 
 // Serve the built web app.
 // In dev/workspace: ../web/dist relative to packages/cli/dist/
@@ -59,44 +184,118 @@ const httpServer = createServer(app);
 // (attached to the same HTTP server)
 // ============================================
 
-const wss = new WebSocketServer({ server: httpServer });
+// Browsers always send Origin on upgrades, so a page from another site
+// can't open a socket and watch along
+const wss = new WebSocketServer({
+  server: httpServer,
+  verifyClient: ({ origin, req }: { origin: string | undefined; req: IncomingMessage }) => {
+    if (isAllowedHost(req.headers.host, bindHost) && isAllowedOrigin(origin, req.headers.host)) return true;
+    console.warn(`  ⚔  Warning: Refusing WebSocket connection from ${origin ?? 'unknown origin'}`);
+    return false;
+  },
+});
 
 // Heartbeat: track alive status per client
 const alive = new WeakMap<WebSocket, boolean>();
 
-wss.on('connection', (ws) => {
-  clients.add(ws);
-  alive.set(ws, true);
-  console.log(`  ⚔  Browser connected (${clients.size} client${clients.size > 1 ? 's' : ''})`);
+/** How long a new connection has to say hello before it is closed */
+const HELLO_TIMEOUT_MS = 5000;
 
-  // Send current scene on connect
-  const initMsg: WsMessage = {
-    type: 'scene_init',
-    payload: { sceneId: currentScene },
-  };
-  ws.send(JSON.stringify(initMsg));
+wss.on('connection', (ws) => {
+  // Nothing is sent until the browser says which protocol it speaks
+  let welcomed = false;
+  const helloTimer = setTimeout(() => {
+    console.warn('  ⚔  Warning: Closing a connection that never said hello (a page from an older claudeborne?)');
+    refuse(ws, WS_CLOSE_NO_HELLO, {
+      code: 'hello_expected',
+      message: `Expected a hello with protocol v${PROTOCOL_VERSION}. Reload the page to update it.`,
+    });
+  }, HELLO_TIMEOUT_MS);
 
   ws.on('pong', () => {
     alive.set(ws, true);
   });
 
   ws.on('message', (data) => {
+    let msg: ClientMessage | null = null;
     try {
-      const msg = JSON.parse(data.toString()) as WsMessage;
-      if (msg.type === 'pong') {
-        alive.set(ws, true);
-      }
+      msg = parseClientMessage(JSON.parse(data.toString()));
     } catch {
-      // Ignore malformed messages
+      // Not JSON — reported below
+    }
+    if (!msg) {
+      console.warn(`  ⚔  Warning: Ignoring malformed message from browser (${data.toString().slice(0, 80)})`);
+      return;
+    }
+
+    if (msg.type === 'hello') {
+      if (welcomed) return;
+      clearTimeout(helloTimer);
+      const mismatch = describeProtocolMismatch(msg.payload.protocolVersion, PROTOCOL_VERSION);
+      if (mismatch) {
+        console.warn(`  ⚔  Warning: Refusing ${msg.payload.client} connection — ${mismatch}`);
+        refuse(ws, WS_CLOSE_INCOMPATIBLE, { code: 'incompatible_version', message: mismatch });
+        return;
+      }
+      welcomed = true;
+      welcome(ws);
+      return;
+    }
+    if (!welcomed) return;
+
+    switch (msg.type) {
+      case 'request_snapshot':
+        send(ws, { type: 'snapshot', payload: history.snapshot() });
+        break;
+      case 'pong':
+        alive.set(ws, true);
+        break;
+      case 'set_scene':
+        setScene(msg.payload.sceneId, currentProject);
+        break;
     }
   });
 
   ws.on('close', () => {
-    clients.delete(ws);
+    clearTimeout(helloTimer);
+    if (!clients.delete(ws)) return;
     console.log(`  ⚔  Browser disconnected (${clients.size} client${clients.size > 1 ? 's' : ''})`);
   });
 });
 
+/** Start streaming to a browser that speaks our protocol */
+function welcome(ws: WebSocket) {
+  clients.add(ws);
+  alive.set(ws, true);
+  console.log(`  ⚔  Browser connected (${clients.size} client${clients.size > 1 ? 's' : ''})`);
+
+  send(ws, { type: 'welcome', payload: { protocolVersion: PROTOCOL_VERSION } });
+  // Where every session stands follows when the browser asks for it
+  send(ws, sceneInitMessage());
+}
+
+/** Tell a browser why it can't be served, then hang up */
+function refuse(ws: WebSocket, closeCode: number, error: ProtocolErrorPayload) {
+  send(ws, { type: 'protocol_error', payload: error });
+  ws.close(closeCode, error.code);
+}
+
+function send(ws: WebSocket, msg: ServerMessage) {
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify(msg));
+  }
+}
+
+/** Send to every welcomed browser */
+function sendAll(msg: ServerMessage) {
+  const data = JSON.stringify(msg);
+  for (const client of clients) {
+    if (client.readyState === WebSocket.OPEN) {
+      client.send(data);
+    }
+  }
+}
+
 // Heartbeat interval: ping every 10s, terminate if no response in 30s
 const heartbeatInterval = setInterval(() => {
   for (const ws of clients) {
@@ -109,121 +308,136 @@ const heartbeatInterval = setInterval(() => {
     alive.set(ws, false);
     // Send both WebSocket-level ping and application-level ping
     ws.ping();
-    const pingMsg: WsMessage = { type: 'ping', payload: {} };
-    if (ws.readyState === WebSocket.OPEN) {
-      ws.send(JSON.stringify(pingMsg));
-    }
+    send(ws, { type: 'ping', payload: {} });
   }
 }, 10_000);
 
-function broadcast(event: ClaudeEvent) {
-  const msg: WsMessage = { type: 'event', payload: event };
-  const data = JSON.stringify(msg);
-  for (const client of clients) {
-    if (client.readyState === WebSocket.OPEN) {
-      client.send(data);
-    }
-  }
-}
+// Per-session state — idle timeouts broadcast a synthetic session_end
+const sessions = new SessionRegistry((event) => publish(event));
 
-// ============================================
-// HTTP API — receives Claude Code hook events
-// ============================================
+// Per-turn tallies — a successful turn ends in victory instead of idle
+const turns = new TurnTracker(victoryThresholds);
 
-/**
- * Normalize a Claude Code hook payload into our ClaudeEvent type.
- *
- * Claude Code hooks send JSON via stdin. Different hook types have
- * different payload shapes:
- *   PreToolUse:  { tool_name, tool_input }
- *   PostToolUse: { tool_name, tool_result }
- *   Notification: { message }
- *   Stop: { ... }
- */
-function normalizeHookPayload(
-  body: Record<string, unknown>,
-  hookType?: string
-): ClaudeEvent {
-  const event: ClaudeEvent = {
-    type: 'assistant_response',
-    timestamp: Date.now(),
-  };
-
-  // Determine event type from hook type or body
-  if (hookType === 'PreToolUse' || body.tool_input !== undefined) {
-    event.type = 'tool_use';
-  } else if (hookType === 'PostToolUse' || body.tool_result !== undefined) {
-    event.type = 'tool_result';
-  } else if (hookType === 'Notification' || (body.message && !body.tool_name)) {
-    event.type = 'thinking';
-  } else if (hookType === 'Stop') {
-    // Stop fires after each turn (when Claude finishes responding),
-    // not at session end. Treat it as returning to idle.
-    event.type = 'assistant_response';
-  }
+// Open tool calls per session — pairs each result with its start
+const toolCalls = new ToolCallTracker();
 
-  // If body already has a valid type field, prefer it
-  const bodyType = body.type as string | undefined;
-  if (bodyType && isValidEventType(bodyType)) {
-    event.type = bodyType;
-  }
+// Recent events and per-session state, for browsers connecting mid-session
+const history = new EventHistory();
 
-  // Handle tool events
-  const toolName = (body.tool_name ?? body.tool) as string | undefined;
-  if (toolName) {
-    event.tool = {
-      name: toolName,
-      category: categorizeToolName(toolName),
-    };
-    // If we have a tool name but type wasn't set to tool_use/tool_result, default to tool_use
-    if (event.type !== 'tool_use' && event.type !== 'tool_result') {
-      event.type = 'tool_use';
-    }
-  }
+// Custom event-to-animation rules, hot-reloaded from ~/.claudeborne and projects
+const mappings = new MappingRules();
 
-  // Handle session events from legacy/direct format
-  if (body.event === 'session_start') {
-    event.type = 'session_start';
-    currentScene = SCENES[Math.floor(Math.random() * SCENES.length)].id;
-  } else if (body.event === 'session_end') {
-    event.type = 'session_end';
-  }
+// On-disk journal of every live event, for --replay
+const journal = journalEnabled ? new EventJournal() : null;
 
-  // Attach message if present
-  if (body.message) {
-    event.message = body.message as string;
-  }
+/** Log, journal and broadcast a live event */
+function publish(event: ClaudeEvent) {
+  logEvent('Event', event);
+  journal?.append(event);
+  broadcast(event);
+  // A project's rules file is only watched while it has a session
+  if (event.type === 'session_end') mappings.release(sessions.list().map((s) => s.cwd));
+}
+
+function sceneInitMessage(type: 'scene_init' | 'scene_change' = 'scene_init'): ServerMessage {
+  const payload: SceneInitPayload = { sceneId: currentScene };
+  if (currentProject) payload.project = currentProject;
+  return { type, payload };
+}
+
+/**
+ * The server owns the current scene: every change lands here and is
+ * rebroadcast, so all tabs agree and a reconnect comes back to it.
+ */
+function setScene(sceneId: SceneId, project: string | undefined) {
+  if (sceneId === currentScene && project === currentProject) return;
+  currentScene = sceneId;
+  currentProject = project;
+
+  const scene = SCENES.find((s) => s.id === sceneId)!;
+  console.log(`  ⚔  Scene: ${scene.name}${project ? ` [${project}]` : ''}`);
+  sendAll(sceneInitMessage('scene_change'));
+}
 
-  return event;
+/**
+ * Move every browser to the scene for a newly started session's project,
+ * if it is the only session on stage. With others active the scene stays
+ * put, so starting a session elsewhere doesn't pull them all away.
+ */
+function enterProject(session: NonNullable<ClaudeEvent['session']>) {
+  if (!session.cwd) return;
+  if (sessions.list().some((s) => s.id !== session.id)) return;
+  setScene(sceneResolver.resolve(session.cwd), getSessionLabel(session));
 }
 
-const VALID_EVENT_TYPES: Set<string> = new Set([
-  'session_start', 'session_end', 'tool_use', 'tool_result',
-  'assistant_response', 'thinking', 'error',
-]);
+function broadcast(event: ClaudeEvent) {
+  history.record(event);
+  sendAll({ type: 'event', payload: event });
+}
 
-function isValidEventType(t: string): t is ClaudeEventType {
-  return VALID_EVENT_TYPES.has(t);
+// ============================================
+// HTTP API — receives Claude Code hook events
+// ============================================
+
+/** Routes that change state need the run token our hooks send */
+function requireToken(req: Request, res: Response, next: NextFunction) {
+  if (runToken && hasValidToken(req.get(TOKEN_HEADER), runToken)) {
+    next();
+    return;
+  }
+  res.status(401).json({ ok: false, error: `Missing or invalid ${TOKEN_HEADER} header` });
 }
 
-app.post('/event', (req, res) => {
-  const body = req.body as Record<string, unknown>;
+app.post('/event', requireToken, (req, res) => {
   const hookType = req.query.hook as string | undefined;
-  const event = normalizeHookPayload(body, hookType);
-
-  console.log(`  ⚔  Event: ${event.type}${event.tool ? ` (${event.tool.name})` : ''}${event.message ? ` — ${event.message}` : ''}`);
+  const normalized = normalizeHookPayload(req.body, hookType);
+  if (!normalized) {
+    unknownPayloads++;
+    console.warn(`  ⚔  Warning: Ignoring unrecognized hook payload (${describePayload(req.body)})`);
+    res.status(422).json({ ok: false, error: 'Unrecognized payload' });
+    return;
+  }
+  const event = toolCalls.observe(mappings.resolve(turns.observe(normalized.event), normalized.payload));
 
-  broadcast(event);
+  // Explicit or implicit, a session start brings its project's scene
+  for (const e of sessions.track(event)) {
+    if (e.type === 'session_start' && e.session) enterProject(e.session);
+    publish(e);
+  }
   res.status(200).json({ ok: true });
 });
 
+// Change the scene from scripts: POST /scene {"sceneId": "site-of-grace"}
+app.post('/scene', requireToken, (req, res) => {
+  const sceneId: unknown = req.body?.sceneId;
+  if (!isSceneId(sceneId)) {
+    res.status(400).json({
+      ok: false,
+      error: `Unknown scene ${JSON.stringify(sceneId)}`,
+      scenes: SCENES.map((s) => s.id),
+    });
+    return;
+  }
+  setScene(sceneId, currentProject);
+  res.status(200).json({ ok: true, scene: currentScene });
+});
+
+function logEvent(label: string, event: ClaudeEvent) {
+  const session = event.session ? ` [${getSessionLabel(event.session)}]` : '';
+  const duration = event.durationMs !== undefined ? ` in ${(event.durationMs / 1000).toFixed(1)}s` : '';
+  console.log(`  ⚔  ${label}: ${event.type}${session}${event.tool ? ` (${event.tool.name}${duration})` : ''}${event.message ? ` — ${event.message}` : ''}`);
+}
+
 // Health check
 app.get('/health', (_req, res) => {
   res.json({
     status: 'alive',
     scene: currentScene,
     clients: clients.size,
+    sessions: sessions.list(),
+    unknownPayloads,
     demo: demoMode,
+    replay: replayFile ?? null,
   });
 });
 
@@ -232,6 +446,16 @@ app.get('/{*splat}', (_req, res) => {
   res.sendFile(path.join(webDistPath, 'index.html'));
 });
 
+// Bodies over the size limit or that aren't JSON — answer in kind, without a stack trace
+app.use((err: { status?: number; type?: string }, _req: Request, res: Response, next: NextFunction) => {
+  if (err.type === 'entity.too.large' || err.type === 'entity.parse.failed') {
+    console.warn(`  ⚔  Warning: Rejecting request body (${err.type === 'entity.too.large' ? `over ${MAX_BODY_SIZE}` : 'invalid JSON'})`);
+    res.status(err.status ?? 400).json({ ok: false, error: err.type });
+    return;
+  }
+  next(err);
+});
+
 // ============================================
 // Banner
 // ============================================
@@ -244,12 +468,20 @@ function printBanner() {
   console.log('  ║     FromSoftware × Claude Code        ║');
   console.log('  ╚══════════════════════════════════════╝');
   console.log('');
-  console.log(`  ⚔  Scene: ${scene.name} (${scene.game})`);
-  console.log(`  ⚔  Server: http://localhost:${HTTP_PORT}`);
+  console.log(`  ⚔  Scene: ${scene.name} (${scene.game})${forcedScene ? '' : ', then chosen per project'}`);
+  console.log(`  ⚔  Server: ${localUrl}`);
+  if (bindHost !== DEFAULT_HOST) {
+    console.log(`  ⚔  Listening on ${bindHost} — anyone on your network can watch your sessions`);
+  }
   if (demoMode) {
     console.log('  ⚔  Mode: DEMO (simulated events)');
+  } else if (replayFile) {
+    console.log(`  ⚔  Mode: Replay (${path.basename(replayFile)} at ${replaySpeed}x)`);
   } else {
     console.log('  ⚔  Mode: Live (Claude Code hooks)');
+    if (journal) {
+      console.log(`  ⚔  Journal: ${JOURNAL_DIR}`);
+    }
   }
   console.log('');
   console.log('  Waiting for a browser connection...');
@@ -261,12 +493,22 @@ function printBanner() {
 // Startup
 // ============================================
 
-let demoHandle: { stop: () => void } | null = null;
+let playbackHandle: { stop: () => void } | null = null;
+/** Whether hooks stay in settings.json after shutdown */
+let keepHooks = keepHooksFlag;
+/** Settings files this run installed hooks into, for cleanup */
+const installedTargets: HookTarget[] = [];
 
 async function start() {
+  // Load the journal up front so a bad path fails before the server starts
+  const replayEvents = replayFile ? await loadJournal(replayFile) : null;
+
+  // A new secret every run — hooks pick it up from disk
+  runToken = await createRunToken();
+
   // Start HTTP server
   await new Promise<void>((resolve) => {
-    httpServer.listen(HTTP_PORT, () => {
+    httpServer.listen(HTTP_PORT, bindHost, () => {
       resolve();
     });
   });
@@ -275,24 +517,47 @@ async function start() {
 
   if (demoMode) {
     // Demo mode: send fake events through the broadcast pipeline
-    demoHandle = startDemo((event) => {
-      console.log(`  ⚔  Demo: ${event.type}${event.tool ? ` (${event.tool.name})` : ''}`);
-      broadcast(event);
+    playbackHandle = startDemo((event) => {
+      const paired = toolCalls.observe(event);
+      logEvent('Demo', paired);
+      broadcast(paired);
     });
+  } else if (replayEvents) {
+    // Replay mode: play a recorded journal through the broadcast pipeline
+    console.log(`  ⚔  Replaying ${replayEvents.length} events...`);
+    playbackHandle = startReplay(
+      replayEvents,
+      replaySpeed!,
+      (event) => {
+        logEvent('Replay', event);
+        broadcast(event);
+      },
+      () => console.log('  ⚔  Replay finished. Press Ctrl+C to quit.'),
+    );
   } else {
-    // Live mode: install Claude Code hooks
+    sessions.start();
+    mappings.start();
+
+    // Live mode: install Claude Code hooks, unless a permanent
+    // install (`claudeborne install`) is already in place
     try {
-      await installHooks();
+      const existing = await inspectHooks(resolveTarget(hookScope));
+      if (existing.persistent && !keepHooksFlag) {
+        keepHooks = true;
+        console.log(`  ⚔  Using persistent hooks in ${existing.settingsPath}`);
+      } else {
+        installedTargets.push(await installHooks({ persistent: keepHooks, scope: hookScope }));
+      }
     } catch (err) {
       console.error('  ⚔  Warning: Could not install hooks:', err);
-      console.error('  ⚔  You can still send events manually via POST /event');
+      console.error(`  ⚔  You can still send events manually via POST /event with the ${TOKEN_HEADER} header from ~/.claudeborne/token`);
     }
   }
 
   // Open web app in browser
   if (!noOpen) {
-    open(`http://localhost:${HTTP_PORT}`).catch(() => {
-      console.log(`  ⚔  Could not auto-open browser. Visit http://localhost:${HTTP_PORT}`);
+    open(localUrl).catch(() => {
+      console.log(`  ⚔  Could not auto-open browser. Visit ${localUrl}`);
     });
   }
 }
@@ -314,18 +579,20 @@ function shutdown() {
 
   console.log('\n  ⚔  Shutting down Claudeborne...');
 
-  // Stop demo if running
-  if (demoHandle) {
-    demoHandle.stop();
+  // Stop demo/replay if running
+  if (playbackHandle) {
+    playbackHandle.stop();
   }
 
   // Remove hooks synchronously so they're cleaned up before process exits
-  if (!demoMode) {
-    removeHooksSync();
+  if (!keepHooks) {
+    removeHooksSync(installedTargets);
   }
 
-  // Stop heartbeat
+  // Stop heartbeat and session sweeps
   clearInterval(heartbeatInterval);
+  sessions.stop();
+  mappings.stop();
 
   // Close servers
   wss.close();
@@ -0,0 +1,88 @@
+// ============================================
+// Claudeborne — Event Journal
+// ============================================
+
+import { appendFile, mkdir, rename, stat, unlink } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { DEFAULT_SESSION_ID, getSessionId, type ClaudeEvent } from '@claudeborne/shared';
+
+export const JOURNAL_DIR = join(homedir(), '.claudeborne', 'sessions');
+
+/** Rotate a journal once it grows past this size */
+const MAX_JOURNAL_BYTES = 5 * 1024 * 1024;
+
+/** Rotated generations kept per session (<id>.1.jsonl … <id>.N.jsonl) */
+const MAX_ROTATIONS = 3;
+
+/**
+ * Appends every normalized ClaudeEvent to a per-session JSONL file:
+ *   ~/.claudeborne/sessions/<session_id>.jsonl
+ *
+ * Writes are serialized per file so lines never interleave, and a
+ * failing disk only produces a warning — the visualizer keeps running.
+ */
+export class EventJournal {
+  private queues = new Map<string, Promise<void>>();
+  private sizes = new Map<string, number>();
+  private dirReady: Promise<void> | null = null;
+  private warned = false;
+
+  constructor(private dir: string = JOURNAL_DIR) {}
+
+  /** Queue an event for writing */
+  append(event: ClaudeEvent): void {
+    const file = this.pathFor(getSessionId(event));
+    const line = JSON.stringify(event) + '\n';
+    const prev = this.queues.get(file) ?? Promise.resolve();
+    const next = prev
+      .then(() => this.write(file, line))
+      .catch((err) => {
+        if (!this.warned) {
+          this.warned = true;
+          console.error('  ⚔  Warning: Could not write event journal:', err);
+        }
+      });
+    this.queues.set(file, next);
+  }
+
+  /** Wait for all pending writes to land */
+  async flush(): Promise<void> {
+    await Promise.all(this.queues.values());
+  }
+
+  /** Journal file path for a session */
+  pathFor(sessionId: string): string {
+    // Session ids are UUIDs, but never trust them as path segments
+    const safe = sessionId.replace(/[^a-zA-Z0-9_-]/g, '_') || DEFAULT_SESSION_ID;
+    return join(this.dir, `${safe}.jsonl`);
+  }
+
+  private async write(file: string, line: string): Promise<void> {
+    this.dirReady ??= mkdir(this.dir, { recursive: true }).then(() => undefined);
+    await this.dirReady;
+
+    let size = this.sizes.get(file);
+    if (size === undefined) {
+      size = await stat(file).then((s) => s.size, () => 0);
+    }
+    const bytes = Buffer.byteLength(line);
+    if (size + bytes > MAX_JOURNAL_BYTES) {
+      await rotate(file);
+      size = 0;
+    }
+
+    await appendFile(file, line, 'utf-8');
+    this.sizes.set(file, size + bytes);
+  }
+}
+
+/** Shift <id>.jsonl → <id>.1.jsonl → … dropping the oldest generation */
+async function rotate(file: string): Promise<void> {
+  const base = file.replace(/\.jsonl$/, '');
+  await unlink(`${base}.${MAX_ROTATIONS}.jsonl`).catch(() => {});
+  for (let i = MAX_ROTATIONS - 1; i >= 1; i--) {
+    await rename(`${base}.${i}.jsonl`, `${base}.${i + 1}.jsonl`).catch(() => {});
+  }
+  await rename(file, `${base}.1.jsonl`);
+}
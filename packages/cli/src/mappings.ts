@@ -0,0 +1,366 @@
+// ============================================
+// Claudeborne — Custom Animation Mappings
+// ============================================
+
+import { readFileSync, unwatchFile, watchFile } from 'node:fs';
+import { homedir } from 'node:os';
+import { basename, isAbsolute, join, relative } from 'node:path';
+import {
+  SCENE_EFFECT_NAMES,
+  eventToAnimation,
+  isAnimationState,
+  isClaudeEventType,
+  isSceneEffect,
+  isToolCategory,
+  type AnimationState,
+  type ClaudeEvent,
+  type ClaudeEventType,
+  type HookPayload,
+  type SceneEffect,
+  type ToolCategory,
+} from '@claudeborne/shared';
+import { globToRegExp } from './glob.js';
+
+/** Rules for every project */
+export const USER_MAPPINGS_PATH = join(homedir(), '.claudeborne', 'mappings.json');
+
+/** Rules for one project, relative to its root — checked before the user's */
+export const PROJECT_MAPPINGS_FILE = join('.claudeborne', 'mappings.json');
+
+/** How often watched rule files are checked for changes */
+const WATCH_INTERVAL_MS = 1000;
+
+const CONDITION_KEYS = ['event', 'tool', 'category', 'command', 'path'];
+
+/** Longest `command` pattern accepted — project rules come from any repo cloned */
+const MAX_COMMAND_PATTERN_LENGTH = 200;
+
+/**
+ * What a rule matches. Every condition given must hold; at least one
+ * is required.
+ */
+export interface MappingCondition {
+  /** Event type, or any of several */
+  event?: ClaudeEventType | ClaudeEventType[];
+  /** Tool name glob, e.g. `mcp__sentry__*` (case-insensitive) */
+  tool?: string;
+  category?: ToolCategory;
+  /**
+   * Regular expression tested against a Bash command. Long patterns and
+   * ones that repeat a repeating group, like `(a+)+`, are rejected.
+   */
+  command?: string;
+  /** Glob tested against the file a tool works on, e.g. `**\/*.test.ts` */
+  path?: string;
+}
+
+export interface MappingRule {
+  match: MappingCondition;
+  animation: AnimationState;
+  effect?: SceneEffect;
+}
+
+/** A validated rule with its patterns compiled */
+interface CompiledRule {
+  events?: Set<ClaudeEventType>;
+  tool?: RegExp;
+  category?: ToolCategory;
+  command?: RegExp;
+  path?: { pattern: RegExp; basenameOnly: boolean };
+  animation: AnimationState;
+  effect?: SceneEffect;
+}
+
+interface RuleFile {
+  /** Last rules that parsed cleanly — kept when an edit breaks the file */
+  rules: CompiledRule[];
+}
+
+/**
+ * Custom event-to-animation rules from `~/.claudeborne/mappings.json` and
+ * each project's `.claudeborne/mappings.json`, e.g.:
+ *
+ *   { "rules": [
+ *     { "match": { "tool": "mcp__sentry__*" }, "animation": "trap", "effect": "flash" },
+ *     { "match": { "command": "^make deploy" }, "animation": "dispatch" }
+ *   ] }
+ *
+ * The first matching rule wins, project rules first. Events no rule
+ * matches get the built-in mapping. Files are watched and reloaded on
+ * change; a file that fails validation is reported and its last good
+ * rules stay in effect.
+ */
+export class MappingRules {
+  private files = new Map<string, RuleFile>();
+
+  constructor(private userPath: string = USER_MAPPINGS_PATH) {}
+
+  /** Load and watch the user's rules */
+  start(): void {
+    this.watch(this.userPath);
+  }
+
+  stop(): void {
+    for (const file of this.files.keys()) unwatchFile(file);
+    this.files.clear();
+  }
+
+  /**
+   * Stop watching the rules of projects no active session is in. Call
+   * as sessions end; a project's rules load again with its next event.
+   */
+  release(activeCwds: Iterable<string | undefined>): void {
+    const keep = new Set([this.userPath]);
+    for (const cwd of activeCwds) {
+      if (cwd) keep.add(join(cwd, PROJECT_MAPPINGS_FILE));
+    }
+    for (const file of [...this.files.keys()]) {
+      if (keep.has(file)) continue;
+      unwatchFile(file);
+      this.files.delete(file);
+    }
+  }
+
+  /**
+   * Resolve the animation for an event. Returns the event with
+   * `animation` (and any rule's `effect`) filled in.
+   */
+  resolve(event: ClaudeEvent, payload?: HookPayload): ClaudeEvent {
+    const cwd = event.session?.cwd;
+    const sources = cwd ? [join(cwd, PROJECT_MAPPINGS_FILE), this.userPath] : [this.userPath];
+
+    for (const source of sources) {
+      const rule = this.watch(source).rules.find((r) => ruleMatches(r, event, payload));
+      if (!rule) continue;
+      const resolved: ClaudeEvent = { ...event, animation: rule.animation };
+      if (rule.effect) resolved.effect = rule.effect;
+      return resolved;
+    }
+    return { ...event, animation: eventToAnimation(event) };
+  }
+
+  /** Rules from a file, loading and watching it on first use */
+  private watch(file: string): RuleFile {
+    let entry = this.files.get(file);
+    if (entry) return entry;
+
+    entry = { rules: [] };
+    this.files.set(file, entry);
+    this.load(file, entry);
+    watchFile(file, { interval: WATCH_INTERVAL_MS }, (curr, prev) => {
+      if (curr.mtimeMs === prev.mtimeMs && curr.size === prev.size) return;
+      this.load(file, entry);
+    });
+    return entry;
+  }
+
+  private load(file: string, entry: RuleFile): void {
+    let text: string;
+    try {
+      text = readFileSync(file, 'utf-8');
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`  ⚔  Warning: Could not read ${file}:`, err);
+      } else if (entry.rules.length > 0) {
+        console.log(`  ⚔  Mappings removed: ${file}`);
+        entry.rules = [];
+      }
+      return;
+    }
+
+    let json: unknown;
+    try {
+      json = JSON.parse(text);
+    } catch (err) {
+      console.error(`  ⚔  Warning: Ignoring ${file} — invalid JSON (${(err as Error).message})`);
+      return;
+    }
+
+    const { rules, errors } = compileRules(json);
+    if (errors.length > 0) {
+      console.error(`  ⚔  Warning: Ignoring ${file}:`);
+      for (const error of errors) console.error(`       ${error}`);
+      return;
+    }
+    entry.rules = rules;
+    console.log(`  ⚔  Mappings: ${rules.length} rule${rules.length === 1 ? '' : 's'} from ${file}`);
+  }
+}
+
+/**
+ * Validate the contents of a rules file. Any error rejects the whole
+ * file, so a half-valid edit never silently drops rules.
+ */
+function compileRules(json: unknown): { rules: CompiledRule[]; errors: string[] } {
+  const errors: string[] = [];
+  if (!isRecord(json) || !Array.isArray(json.rules)) {
+    return { rules: [], errors: ['expected an object with a "rules" array'] };
+  }
+
+  const rules: CompiledRule[] = [];
+  json.rules.forEach((raw: unknown, i: number) => {
+    const at = `rules[${i}]`;
+    if (!isRecord(raw)) {
+      errors.push(`${at}: expected an object`);
+      return;
+    }
+    const rule = compileRule(raw, at, errors);
+    if (rule) rules.push(rule);
+  });
+  return { rules, errors };
+}
+
+function compileRule(raw: Record<string, unknown>, at: string, errors: string[]): CompiledRule | null {
+  const before = errors.length;
+
+  if (!isAnimationState(raw.animation)) {
+    errors.push(`${at}.animation: unknown animation state ${JSON.stringify(raw.animation)}`);
+  }
+  if (raw.effect !== undefined && !isSceneEffect(raw.effect)) {
+    errors.push(`${at}.effect: unknown effect ${JSON.stringify(raw.effect)} (expected ${SCENE_EFFECT_NAMES.join(', ')})`);
+  }
+
+  const match = raw.match;
+  if (!isRecord(match)) {
+    errors.push(`${at}.match: expected an object`);
+    return null;
+  }
+  const keys = Object.keys(match);
+  if (keys.length === 0) {
+    errors.push(`${at}.match: needs at least one condition (${CONDITION_KEYS.join(', ')})`);
+  }
+  for (const key of keys) {
+    if (!CONDITION_KEYS.includes(key)) errors.push(`${at}.match.${key}: unknown condition`);
+  }
+
+  const compiled: Partial<CompiledRule> = {};
+
+  if (match.event !== undefined) {
+    const events = Array.isArray(match.event) ? match.event : [match.event];
+    const invalid = events.filter((e) => !isClaudeEventType(e));
+    if (events.length === 0 || invalid.length > 0) {
+      errors.push(`${at}.match.event: unknown event type ${JSON.stringify(invalid[0] ?? [])}`);
+    } else {
+      compiled.events = new Set(events.filter(isClaudeEventType));
+    }
+  }
+
+  if (match.tool !== undefined) {
+    if (typeof match.tool !== 'string' || !match.tool) {
+      errors.push(`${at}.match.tool: expected a tool name glob`);
+    } else {
+      compiled.tool = globToRegExp(match.tool, 'i');
+    }
+  }
+
+  if (match.category !== undefined) {
+    if (!isToolCategory(match.category)) {
+      errors.push(`${at}.match.category: unknown tool category ${JSON.stringify(match.category)}`);
+    } else {
+      compiled.category = match.category;
+    }
+  }
+
+  if (match.command !== undefined) {
+    if (typeof match.command !== 'string') {
+      errors.push(`${at}.match.command: expected a regular expression string`);
+    } else if (match.command.length > MAX_COMMAND_PATTERN_LENGTH) {
+      errors.push(`${at}.match.command: longer than ${MAX_COMMAND_PATTERN_LENGTH} characters`);
+    } else if (hasNestedQuantifier(match.command)) {
+      errors.push(`${at}.match.command: repeats a repeating group, which can backtrack without end`);
+    } else {
+      try {
+        compiled.command = new RegExp(match.command);
+      } catch (err) {
+        errors.push(`${at}.match.command: ${(err as Error).message}`);
+      }
+    }
+  }
+
+  if (match.path !== undefined) {
+    if (typeof match.path !== 'string' || !match.path) {
+      errors.push(`${at}.match.path: expected a file path glob`);
+    } else {
+      compiled.path = { pattern: globToRegExp(match.path), basenameOnly: !match.path.includes('/') };
+    }
+  }
+
+  if (errors.length > before) return null;
+  compiled.animation = raw.animation as AnimationState;
+  if (raw.effect !== undefined) compiled.effect = raw.effect as SceneEffect;
+  return compiled as CompiledRule;
+}
+
+function ruleMatches(rule: CompiledRule, event: ClaudeEvent, payload?: HookPayload): boolean {
+  if (rule.events && !rule.events.has(event.type)) return false;
+  if (rule.tool && !(event.tool && rule.tool.test(event.tool.name))) return false;
+  if (rule.category && event.tool?.category !== rule.category) return false;
+
+  const input = payload && 'tool_input' in payload ? payload.tool_input : undefined;
+  if (rule.command) {
+    const command = input?.command;
+    if (typeof command !== 'string' || !rule.command.test(command)) return false;
+  }
+  if (rule.path) {
+    const file = [input?.file_path, input?.notebook_path, input?.path].find((p) => typeof p === 'string');
+    if (typeof file !== 'string' || !pathMatches(rule.path, file, event.session?.cwd)) return false;
+  }
+  return true;
+}
+
+/**
+ * Globs match the path relative to the session's project when the file
+ * is inside it, else the path as given. A glob without a `/` matches the
+ * file name alone, like .gitignore.
+ */
+function pathMatches(glob: NonNullable<CompiledRule['path']>, file: string, cwd?: string): boolean {
+  if (glob.basenameOnly) return glob.pattern.test(basename(file));
+
+  const candidates = [file];
+  if (cwd && isAbsolute(file)) {
+    const rel = relative(cwd, file);
+    if (rel && !rel.startsWith('..') && !isAbsolute(rel)) candidates.push(rel);
+  }
+  return candidates.some((c) => glob.pattern.test(c.replace(/\\/g, '/')));
+}
+
+/**
+ * Whether a pattern repeats a group that itself repeats, like `(a+)+` or
+ * `(?:\w*x)*` — the shape that makes backtracking blow up on a near miss.
+ */
+function hasNestedQuantifier(pattern: string): boolean {
+  // Per open group, whether anything inside it repeats
+  const groups: boolean[] = [];
+  let inClass = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (c === '\\') {
+      i++;
+    } else if (inClass) {
+      if (c === ']') inClass = false;
+    } else if (c === '[') {
+      inClass = true;
+    } else if (c === '(') {
+      groups.push(false);
+    } else if (c === ')') {
+      const inner = groups.pop() ?? false;
+      const repeated = isQuantifierAt(pattern, i + 1);
+      if (inner && repeated) return true;
+      if (groups.length > 0 && (inner || repeated)) groups[groups.length - 1] = true;
+    } else if (groups.length > 0 && isQuantifierAt(pattern, i)) {
+      groups[groups.length - 1] = true;
+    }
+  }
+  return false;
+}
+
+/** Whether an unbounded or counted repeat (`*`, `+`, `{n,m}`) starts at `i` */
+function isQuantifierAt(pattern: string, i: number): boolean {
+  const c = pattern[i];
+  return c === '*' || c === '+' || (c === '{' && /^\{\d+(?:,\d*)?\}/.test(pattern.slice(i)));
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
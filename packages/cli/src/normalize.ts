@@ -0,0 +1,245 @@
+// ============================================
+// Claudeborne — Hook Payload Normalization
+// ============================================
+
+import {
+  categorizeToolName,
+  classifyCommand,
+  isClaudeEventType,
+  parseMcpToolName,
+  type ClaudeEvent,
+  type ClaudeEventType,
+  type HookEventName,
+  type HookPayload,
+  type HookPayloadBase,
+  type SessionIdentity,
+} from '@claudeborne/shared';
+import { detectToolFailure } from './failures.js';
+
+/** The ClaudeEventType each Claude Code hook event becomes */
+const HOOK_EVENT_TYPES: Record<HookEventName, ClaudeEventType> = {
+  SessionStart: 'session_start',
+  SessionEnd: 'session_end',
+  UserPromptSubmit: 'prompt_submit',
+  PreToolUse: 'tool_use',
+  PostToolUse: 'tool_result',
+  // Claude Code notifies when it is blocked on a permission prompt
+  // or has been waiting for input
+  Notification: 'awaiting_input',
+  // Stop fires after each turn (when Claude finishes responding),
+  // not at session end. Treat it as returning to idle.
+  Stop: 'assistant_response',
+  SubagentStop: 'subagent_stop',
+  PreCompact: 'compact',
+};
+
+export function isHookEventName(name: unknown): name is HookEventName {
+  return typeof name === 'string' && Object.hasOwn(HOOK_EVENT_TYPES, name);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+export interface NormalizedEvent {
+  event: ClaudeEvent;
+  /** The validated hook payload, when the body came from a Claude Code hook */
+  payload?: HookPayload;
+}
+
+/**
+ * Normalize a request body from POST /event into our ClaudeEvent type.
+ *
+ * Claude Code hook payloads are recognized by their `hook_event_name`
+ * (`?hook=<name>` stands in for it on hand-made requests). Bodies that
+ * already carry a ClaudeEventType in `type`, or the legacy `event` field,
+ * are taken as-is. Returns null for anything else.
+ */
+export function normalizeHookPayload(body: unknown, hookType?: string): NormalizedEvent | null {
+  if (!isRecord(body)) return null;
+
+  const payload = parseHookPayload(body, hookType);
+  if (payload) return { event: payloadToEvent(payload), payload };
+
+  const event = parseDirectEvent(body);
+  return event ? { event } : null;
+}
+
+/**
+ * Validate a hook payload against the shape its hook_event_name promises,
+ * extracting every field we rely on. Returns null if it doesn't match.
+ */
+export function parseHookPayload(
+  body: Record<string, unknown>,
+  hookType?: string,
+): HookPayload | null {
+  const name = body.hook_event_name ?? hookType;
+  if (!isHookEventName(name)) return null;
+  if (typeof body.session_id !== 'string' || !body.session_id) return null;
+
+  const base: HookPayloadBase = {
+    session_id: body.session_id,
+    transcript_path: optionalString(body.transcript_path),
+    cwd: optionalString(body.cwd),
+  };
+
+  switch (name) {
+    case 'SessionStart':
+      return { ...base, hook_event_name: name, source: optionalString(body.source) };
+
+    case 'SessionEnd':
+      return { ...base, hook_event_name: name, reason: optionalString(body.reason) };
+
+    case 'UserPromptSubmit':
+      if (typeof body.prompt !== 'string') return null;
+      return { ...base, hook_event_name: name, prompt: body.prompt };
+
+    case 'PreToolUse':
+      if (typeof body.tool_name !== 'string' || !isRecord(body.tool_input)) return null;
+      return {
+        ...base,
+        hook_event_name: name,
+        tool_name: body.tool_name,
+        tool_input: body.tool_input,
+        tool_use_id: optionalString(body.tool_use_id),
+      };
+
+    case 'PostToolUse':
+      if (typeof body.tool_name !== 'string' || !isRecord(body.tool_input)) return null;
+      if (body.tool_response === undefined) return null;
+      return {
+        ...base,
+        hook_event_name: name,
+        tool_name: body.tool_name,
+        tool_input: body.tool_input,
+        tool_use_id: optionalString(body.tool_use_id),
+        tool_response: body.tool_response,
+      };
+
+    case 'Notification':
+      if (typeof body.message !== 'string') return null;
+      return { ...base, hook_event_name: name, message: body.message };
+
+    case 'Stop':
+    case 'SubagentStop':
+      if (body.stop_hook_active !== undefined && typeof body.stop_hook_active !== 'boolean') return null;
+      return { ...base, hook_event_name: name, stop_hook_active: body.stop_hook_active ?? false };
+
+    case 'PreCompact':
+      if (typeof body.trigger !== 'string') return null;
+      return {
+        ...base,
+        hook_event_name: name,
+        trigger: body.trigger,
+        custom_instructions: optionalString(body.custom_instructions),
+      };
+  }
+}
+
+function payloadToEvent(payload: HookPayload): ClaudeEvent {
+  const session: SessionIdentity = { id: payload.session_id };
+  if (payload.cwd) session.cwd = payload.cwd;
+  if (payload.transcript_path) session.transcriptPath = payload.transcript_path;
+
+  const event: ClaudeEvent = {
+    type: HOOK_EVENT_TYPES[payload.hook_event_name],
+    timestamp: Date.now(),
+    session,
+  };
+
+  switch (payload.hook_event_name) {
+    case 'PreToolUse':
+      event.tool = toolOf(payload.tool_name, payload.tool_input, payload.tool_use_id);
+      break;
+    case 'PostToolUse': {
+      event.tool = toolOf(payload.tool_name, payload.tool_input, payload.tool_use_id);
+      // A result that reports failure becomes an error event instead
+      const failure = detectToolFailure(payload);
+      if (failure) {
+        event.type = 'error';
+        event.severity = failure.severity;
+        event.message = failure.reason;
+      }
+      break;
+    }
+    case 'Notification':
+      event.message = payload.message;
+      break;
+    case 'SessionStart':
+      event.message = payload.source;
+      break;
+    case 'SessionEnd':
+      event.message = payload.reason;
+      break;
+    case 'PreCompact':
+      event.message = payload.trigger;
+      break;
+    // Prompt text is deliberately left out — it would end up in logs and journals
+  }
+  if (event.message === undefined) delete event.message;
+
+  return event;
+}
+
+function toolOf(name: string, input: Record<string, unknown>, id?: string): NonNullable<ClaudeEvent['tool']> {
+  const tool: NonNullable<ClaudeEvent['tool']> = { name, category: categorizeToolName(name) };
+  if (id) tool.id = id;
+  if (tool.category === 'bash' && typeof input.command === 'string') {
+    tool.commandClass = classifyCommand(input.command);
+  }
+  if (tool.category === 'mcp') {
+    tool.mcpServer = parseMcpToolName(name)?.server;
+  }
+  return tool;
+}
+
+/**
+ * Events posted directly in our own format, e.g. `{ "type": "thinking" }`,
+ * or the legacy `{ "event": "session_start" }`.
+ */
+function parseDirectEvent(body: Record<string, unknown>): ClaudeEvent | null {
+  let type: ClaudeEventType;
+  if (isClaudeEventType(body.type)) {
+    type = body.type;
+  } else if (body.event === 'session_start' || body.event === 'session_end') {
+    type = body.event;
+  } else {
+    return null;
+  }
+
+  const event: ClaudeEvent = { type, timestamp: Date.now() };
+
+  const toolName = optionalString(body.tool_name) ?? optionalString(body.tool);
+  if (toolName) {
+    const input = isRecord(body.tool_input) ? body.tool_input : {};
+    event.tool = toolOf(toolName, input, optionalString(body.tool_use_id));
+  }
+
+  const sessionId = optionalString(body.session_id);
+  if (sessionId) {
+    event.session = { id: sessionId };
+    const cwd = optionalString(body.cwd);
+    if (cwd) event.session.cwd = cwd;
+  }
+
+  const message = optionalString(body.message);
+  if (message) event.message = message;
+
+  if (type === 'error' && (body.severity === 'minor' || body.severity === 'severe')) {
+    event.severity = body.severity;
+  }
+
+  return event;
+}
+
+/** One-line summary of an unrecognized body, for logging */
+export function describePayload(body: unknown): string {
+  if (!isRecord(body)) return Array.isArray(body) ? 'array' : typeof body;
+  const name = typeof body.hook_event_name === 'string' ? `${body.hook_event_name}, ` : '';
+  const keys = Object.keys(body);
+  return `${name}keys: ${keys.length > 0 ? keys.join(', ') : 'none'}`;
+}
@@ -0,0 +1,110 @@
+// ============================================
+// Claudeborne — Per-Turn Outcome Tracking
+// ============================================
+
+import { getSessionId, type ClaudeEvent } from '@claudeborne/shared';
+
+/**
+ * When a finished turn earns the victory banner. A threshold of 0
+ * disables that route to victory.
+ */
+export interface VictoryThresholds {
+  /** File edits in a turn with no errors at all */
+  minEdits: number;
+  /** Passing test runs in a turn whose last test run passed */
+  minPassingTests: number;
+  /** Quiet period after a victory before the same session can win again */
+  cooldownMs: number;
+}
+
+export const DEFAULT_VICTORY_THRESHOLDS: VictoryThresholds = {
+  minEdits: 3,
+  minPassingTests: 1,
+  cooldownMs: 5 * 60_000,
+};
+
+interface TurnStats {
+  edits: number;
+  errors: number;
+  passingTests: number;
+  lastTestPassed: boolean;
+}
+
+/**
+ * Tallies what happens between a prompt and Claude's `Stop` for each
+ * session, and turns the `Stop` of a successful turn into a `victory`
+ * event. Every other turn ends in a plain return to idle.
+ */
+export class TurnTracker {
+  private turns = new Map<string, TurnStats>();
+  private lastVictory = new Map<string, number>();
+
+  constructor(private thresholds: VictoryThresholds = DEFAULT_VICTORY_THRESHOLDS) {}
+
+  /**
+   * Record an event against its session's current turn. Returns the
+   * event to broadcast — a victory in place of a successful turn's end.
+   */
+  observe(event: ClaudeEvent): ClaudeEvent {
+    const id = getSessionId(event);
+
+    switch (event.type) {
+      case 'prompt_submit':
+        this.turns.set(id, emptyTurn());
+        return event;
+
+      case 'session_end':
+        this.turns.delete(id);
+        this.lastVictory.delete(id);
+        return event;
+
+      case 'tool_result':
+      case 'error': {
+        const turn = this.turnFor(id);
+        const failed = event.type === 'error';
+        if (failed) turn.errors++;
+        if (!failed && event.tool?.category === 'edit') turn.edits++;
+        if (event.tool?.commandClass === 'test') {
+          turn.lastTestPassed = !failed;
+          if (!failed) turn.passingTests++;
+        }
+        return event;
+      }
+
+      case 'assistant_response': {
+        const turn = this.turns.get(id);
+        this.turns.delete(id);
+        if (!turn || !this.isVictory(turn, id, event.timestamp)) return event;
+        this.lastVictory.set(id, event.timestamp);
+        return { ...event, type: 'victory' };
+      }
+
+      default:
+        return event;
+    }
+  }
+
+  private turnFor(id: string): TurnStats {
+    let turn = this.turns.get(id);
+    if (!turn) {
+      // Hooks installed mid-turn — count from here
+      turn = emptyTurn();
+      this.turns.set(id, turn);
+    }
+    return turn;
+  }
+
+  private isVictory(turn: TurnStats, id: string, now: number): boolean {
+    const { minEdits, minPassingTests, cooldownMs } = this.thresholds;
+    const last = this.lastVictory.get(id);
+    if (last !== undefined && now - last < cooldownMs) return false;
+
+    const cleanEdits = minEdits > 0 && turn.edits >= minEdits && turn.errors === 0;
+    const greenTests = minPassingTests > 0 && turn.passingTests >= minPassingTests && turn.lastTestPassed;
+    return cleanEdits || greenTests;
+  }
+}
+
+function emptyTurn(): TurnStats {
+  return { edits: 0, errors: 0, passingTests: 0, lastTestPassed: false };
+}
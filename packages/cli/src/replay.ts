@@ -0,0 +1,103 @@
+// ============================================
+// Claudeborne — Journal Replay
+// ============================================
+
+import { readFile } from 'node:fs/promises';
+import { isClaudeEvent, type ClaudeEvent } from '@claudeborne/shared';
+
+/** Long silences in a journal are shortened to at most this (real time) */
+const MAX_REPLAY_GAP_MS = 10_000;
+
+/**
+ * Parse a `--speed` value such as "4x", "4" or "0.5x".
+ * Returns null if the value is not a positive number.
+ */
+export function parseSpeed(value: string): number | null {
+  const speed = Number(value.replace(/x$/i, ''));
+  return Number.isFinite(speed) && speed > 0 ? speed : null;
+}
+
+/**
+ * Load a JSONL journal written by EventJournal.
+ * Lines that don't parse, or don't check out as events, are skipped with
+ * a warning rather than aborting the replay.
+ */
+export async function loadJournal(file: string): Promise<ClaudeEvent[]> {
+  const raw = await readFile(file, 'utf-8');
+  const events: ClaudeEvent[] = [];
+  let skipped = 0;
+
+  for (const line of raw.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const event: unknown = JSON.parse(line);
+      if (!isClaudeEvent(event)) {
+        skipped++;
+        continue;
+      }
+      events.push(event);
+    } catch {
+      skipped++;
+    }
+  }
+
+  if (skipped > 0) {
+    console.warn(`  ⚔  Warning: Skipped ${skipped} malformed journal line${skipped > 1 ? 's' : ''}`);
+  }
+  return events;
+}
+
+/**
+ * Play journaled events back through `onEvent`, preserving the original
+ * spacing between them (divided by `speed`). Works like startDemo, but
+ * plays the sequence once and then calls `onDone`.
+ */
+export function startReplay(
+  events: ClaudeEvent[],
+  speed: number,
+  onEvent: (event: ClaudeEvent) => void,
+  onDone?: () => void,
+): { stop: () => void } {
+  let running = true;
+  let timeoutId: ReturnType<typeof setTimeout> | null = null;
+
+  async function play() {
+    for (let i = 0; i < events.length; i++) {
+      if (!running) return;
+
+      onEvent(rebase(events[i], Date.now()));
+
+      const next = events[i + 1];
+      if (!next) break;
+      const gap = Math.max(0, next.timestamp - events[i].timestamp) / speed;
+      await new Promise<void>((resolve) => {
+        timeoutId = setTimeout(resolve, Math.min(gap, MAX_REPLAY_GAP_MS));
+      });
+    }
+    if (running) onDone?.();
+  }
+
+  play().catch((err) => {
+    running = false;
+    console.error('  ⚔  Replay stopped:', err);
+  });
+
+  return {
+    stop() {
+      running = false;
+      if (timeoutId !== null) {
+        clearTimeout(timeoutId);
+      }
+    },
+  };
+}
+
+/** Move an event, and the start of every call it lists as open, to `now` */
+function rebase(event: ClaudeEvent, now: number): ClaudeEvent {
+  const shift = now - event.timestamp;
+  const rebased: ClaudeEvent = { ...event, timestamp: now };
+  if (event.openCalls) {
+    rebased.openCalls = event.openCalls.map((call) => ({ ...call, startedAt: call.startedAt + shift }));
+  }
+  return rebased;
+}
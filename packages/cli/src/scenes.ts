@@ -0,0 +1,90 @@
+// ============================================
+// Claudeborne — Project Scenes
+// ============================================
+
+import { readFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { SCENES, isSceneId, type SceneId } from '@claudeborne/shared';
+import { globToRegExp } from './glob.js';
+
+/**
+ * Scene overrides per project, e.g.:
+ *
+ *   { "~/code/blog": "hunters-dream", "~/work/**": "site-of-grace" }
+ *
+ * Keys are project paths or globs (`~` for the home directory), checked
+ * in file order.
+ */
+export const SCENES_CONFIG_PATH = join(homedir(), '.claudeborne', 'scenes.json');
+
+/**
+ * Picks the scene for a project, so the same repo always lands in the
+ * same world: a forced scene (`--scene`) first, then the config file,
+ * then a stable hash of the project path.
+ */
+export class SceneResolver {
+  private warned = new Set<string>();
+
+  constructor(
+    private forced: SceneId | null = null,
+    private configPath: string = SCENES_CONFIG_PATH,
+  ) {}
+
+  resolve(cwd: string): SceneId {
+    if (this.forced) return this.forced;
+    const project = normalizePath(cwd);
+    return this.configured(project) ?? SCENES[hashString(project) % SCENES.length].id;
+  }
+
+  /**
+   * The config is read on every call — it only happens on session start,
+   * and edits then apply to the next session without a restart.
+   */
+  private configured(project: string): SceneId | null {
+    let config: unknown;
+    try {
+      config = JSON.parse(readFileSync(this.configPath, 'utf-8'));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.warnOnce(`Ignoring ${this.configPath} (${(err as Error).message})`);
+      }
+      return null;
+    }
+    if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+      this.warnOnce(`Ignoring ${this.configPath} (expected an object of project path → scene)`);
+      return null;
+    }
+
+    for (const [pattern, scene] of Object.entries(config)) {
+      if (!isSceneId(scene)) {
+        this.warnOnce(`Unknown scene ${JSON.stringify(scene)} for "${pattern}" in ${this.configPath} (expected ${SCENES.map((s) => s.id).join(', ')})`);
+        continue;
+      }
+      if (globToRegExp(normalizePath(pattern)).test(project)) return scene;
+    }
+    return null;
+  }
+
+  private warnOnce(message: string): void {
+    if (this.warned.has(message)) return;
+    this.warned.add(message);
+    console.warn(`  ⚔  Warning: ${message}`);
+  }
+}
+
+/** Expand `~`, use forward slashes and drop any trailing slash */
+function normalizePath(p: string): string {
+  const expanded = p === '~' || p.startsWith('~/') ? homedir() + p.slice(1) : p;
+  return expanded.replace(/\\/g, '/').replace(/(.)\/+$/, '$1');
+}
+
+/** 32-bit FNV-1a — the same project gets the same scene on every run */
+function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
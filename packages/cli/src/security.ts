@@ -0,0 +1,78 @@
+// ============================================
+// Claudeborne — Localhost Hardening
+// ============================================
+
+import { randomBytes, timingSafeEqual } from 'node:crypto';
+import { mkdir, writeFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { isIP } from 'node:net';
+import { HTTP_PORT, WEB_PORT } from '@claudeborne/shared';
+
+/**
+ * The secret for this run. Hooks read it from here when they fire rather
+ * than carrying it in settings.json, so persistent and checked-in hooks
+ * keep working across restarts without ever holding a live token.
+ */
+export const TOKEN_PATH = join(homedir(), '.claudeborne', 'token');
+
+/** Request header hooks and scripts present the token in */
+export const TOKEN_HEADER = 'X-Claudeborne-Token';
+
+/** Largest JSON body accepted — tool inputs can carry whole files */
+export const MAX_BODY_SIZE = '1mb';
+
+/** Bind address unless --host says otherwise */
+export const DEFAULT_HOST = '127.0.0.1';
+
+/** Create a fresh token and write it where only this user can read it */
+export async function createRunToken(path: string = TOKEN_PATH): Promise<string> {
+  const token = randomBytes(32).toString('hex');
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, token + '\n', { encoding: 'utf-8', mode: 0o600 });
+  return token;
+}
+
+/** Compare a presented token in constant time */
+export function hasValidToken(presented: string | undefined, token: string): boolean {
+  if (!presented) return false;
+  const a = Buffer.from(presented.trim());
+  const b = Buffer.from(token);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/** Hostname of a `Host` header or origin authority, without port or IPv6 brackets */
+function hostnameOf(authority: string): string {
+  const match = /^\[([^\]]+)\](?::\d+)?$/.exec(authority) ?? /^([^:]+)(?::\d+)?$/.exec(authority);
+  return (match?.[1] ?? authority).toLowerCase();
+}
+
+/**
+ * Whether a request was addressed to us by a name we answer to. A page
+ * on some other domain that re-points its DNS at 127.0.0.1 still sends
+ * its own name here, so this closes off DNS rebinding.
+ */
+export function isAllowedHost(hostHeader: string | undefined, boundHost: string): boolean {
+  if (!hostHeader) return false;
+  const name = hostnameOf(hostHeader);
+  return name === 'localhost' || isIP(name) !== 0 || name === boundHost.toLowerCase();
+}
+
+/**
+ * Whether a WebSocket upgrade comes from a page we served (or the Vite
+ * dev server), under any loopback name. Clients outside a browser send
+ * no Origin and are let in.
+ */
+export function isAllowedOrigin(origin: string | undefined, hostHeader: string | undefined): boolean {
+  if (!origin) return true;
+  let url: URL;
+  try {
+    url = new URL(origin);
+  } catch {
+    return false;
+  }
+  if (hostHeader && url.host === hostHeader.toLowerCase()) return true;
+  const name = hostnameOf(url.host);
+  const loopback = name === 'localhost' || name === '127.0.0.1' || name === '::1';
+  return loopback && (url.port === String(HTTP_PORT) || url.port === String(WEB_PORT));
+}
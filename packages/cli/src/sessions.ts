@@ -0,0 +1,113 @@
+// ============================================
+// Claudeborne — Per-Session State
+// ============================================
+
+import type { ClaudeEvent, SessionIdentity } from '@claudeborne/shared';
+
+/** Sessions with no events for this long are considered ended */
+const SESSION_IDLE_TIMEOUT_MS = 30 * 60_000;
+
+/** How often to sweep for idle sessions */
+const SWEEP_INTERVAL_MS = 60_000;
+
+export interface SessionState {
+  id: string;
+  cwd?: string;
+  startedAt: number;
+  lastEventAt: number;
+  eventCount: number;
+}
+
+/**
+ * Tracks every Claude Code session currently sending events.
+ *
+ * Sessions are opened by an explicit `session_start` or implicitly by the
+ * first event carrying an unseen `session_id`, and closed by `session_end`
+ * or after a long stretch of silence. Implicit opens and timeouts emit a
+ * synthetic start/end event so the browser always sees a matched pair.
+ */
+export class SessionRegistry {
+  private sessions = new Map<string, SessionState>();
+  private sweepTimer: ReturnType<typeof setInterval> | null = null;
+
+  /**
+   * @param emit Called with any synthetic session events the registry
+   *   generates (idle timeouts) outside of `track()`.
+   */
+  constructor(private emit: (event: ClaudeEvent) => void) {}
+
+  /** Start sweeping for idle sessions */
+  start(): void {
+    if (this.sweepTimer) return;
+    this.sweepTimer = setInterval(() => this.sweep(), SWEEP_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+
+  /**
+   * Record an incoming event against its session.
+   * Returns the events to broadcast, in order — the event itself,
+   * preceded by a synthetic `session_start` if the session is new.
+   */
+  track(event: ClaudeEvent): ClaudeEvent[] {
+    const identity = event.session;
+    if (!identity) return [event];
+
+    const out: ClaudeEvent[] = [];
+    let state = this.sessions.get(identity.id);
+
+    if (!state) {
+      if (event.type === 'session_end') {
+        // Never saw this session — nothing on screen to remove
+        return [event];
+      }
+      state = {
+        id: identity.id,
+        cwd: identity.cwd,
+        startedAt: event.timestamp,
+        lastEventAt: event.timestamp,
+        eventCount: 0,
+      };
+      this.sessions.set(identity.id, state);
+      if (event.type !== 'session_start') {
+        out.push({ type: 'session_start', timestamp: event.timestamp, session: identity });
+      }
+    }
+
+    state.lastEventAt = event.timestamp;
+    state.eventCount++;
+    if (identity.cwd) state.cwd = identity.cwd;
+
+    if (event.type === 'session_end') {
+      this.sessions.delete(identity.id);
+    }
+
+    out.push(event);
+    return out;
+  }
+
+  /** All currently active sessions */
+  list(): SessionState[] {
+    return [...this.sessions.values()];
+  }
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  /** End sessions that have gone quiet */
+  private sweep(): void {
+    const now = Date.now();
+    for (const state of [...this.sessions.values()]) {
+      if (now - state.lastEventAt < SESSION_IDLE_TIMEOUT_MS) continue;
+      this.sessions.delete(state.id);
+      const session: SessionIdentity = { id: state.id, cwd: state.cwd };
+      this.emit({ type: 'session_end', timestamp: now, session });
+    }
+  }
+}
@@ -0,0 +1,369 @@
+// ============================================
+// Claudeborne — Safe settings.json Editing
+// ============================================
+
+import { mkdir, readFile, readdir, rename, stat, unlink, writeFile, chmod } from 'node:fs/promises';
+import {
+  chmodSync,
+  mkdirSync,
+  readFileSync,
+  readdirSync,
+  renameSync,
+  statSync,
+  unlinkSync,
+  writeFileSync,
+} from 'node:fs';
+import { homedir } from 'node:os';
+import { dirname, join } from 'node:path';
+
+const BACKUP_DIR = join(homedir(), '.claudeborne', 'backups');
+
+/** Backups kept per settings file; older ones are pruned */
+const MAX_BACKUPS = 10;
+
+/** Re-read/re-apply attempts when the file changes under us */
+const MAX_ATTEMPTS = 3;
+
+/** Thrown instead of writing over a settings file we could not parse */
+export class SettingsParseError extends Error {
+  constructor(readonly path: string, reason: string) {
+    super(`${path} is not valid JSON (${reason}) — refusing to modify it`);
+    this.name = 'SettingsParseError';
+  }
+}
+
+/** Thrown when another process keeps modifying the file between our read and write */
+export class SettingsConflictError extends Error {
+  constructor(readonly path: string) {
+    super(`${path} changed while it was being updated — giving up after ${MAX_ATTEMPTS} attempts`);
+    this.name = 'SettingsConflictError';
+  }
+}
+
+/** Formatting details we carry over when writing the file back */
+interface JsonStyle {
+  indent: string;
+  eol: string;
+  finalNewline: boolean;
+  bom: boolean;
+}
+
+interface SettingsSnapshot {
+  /** File contents as read, or null if the file didn't exist */
+  raw: string | null;
+  /** Contents without a byte-order mark ('' for a missing file) */
+  text: string;
+  /** Parsed settings — handed to the mutation */
+  data: Record<string, unknown>;
+  /** Pristine copy of `data`, to tell which keys the mutation touched */
+  original: Record<string, unknown>;
+  style: JsonStyle;
+}
+
+/**
+ * Mutates parsed settings in place. Return false to skip writing
+ * (nothing changed).
+ */
+export type SettingsMutation = (settings: Record<string, unknown>) => boolean;
+
+/**
+ * Read and parse a settings file. A missing or empty file reads as `{}`;
+ * anything else that doesn't parse to an object throws SettingsParseError.
+ */
+export async function loadSettings(path: string): Promise<Record<string, unknown>> {
+  return parseSnapshot(path, await readRaw(path)).data;
+}
+
+/**
+ * Apply a mutation to a settings file safely:
+ * - refuses to touch a file it can't parse
+ * - rewrites only the top-level keys the mutation changed, so every
+ *   other key keeps its position, indentation and layout byte for byte
+ * - backs up the previous contents to ~/.claudeborne/backups/
+ * - writes a temp file and renames it over the original
+ * - re-applies the mutation if the file changed since it was read
+ *
+ * Returns whether the file was written.
+ */
+export async function editSettings(path: string, mutate: SettingsMutation): Promise<boolean> {
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const snapshot = parseSnapshot(path, await readRaw(path));
+    if (!mutate(snapshot.data)) return false;
+
+    await mkdir(dirname(path), { recursive: true });
+    const tmp = tempPathFor(path);
+    await writeFile(tmp, render(snapshot), 'utf-8');
+    const mode = await stat(path).then((s) => s.mode, () => null);
+    if (mode !== null) await chmod(tmp, mode);
+
+    // Last check for a concurrent writer before swapping the file in
+    if ((await readRaw(path)) !== snapshot.raw) {
+      await unlink(tmp).catch(() => {});
+      continue;
+    }
+
+    if (snapshot.raw !== null) await backup(path, snapshot.raw);
+    await rename(tmp, path);
+    return true;
+  }
+  throw new SettingsConflictError(path);
+}
+
+/**
+ * Synchronous editSettings, for signal handlers where async work
+ * may not finish before the process exits.
+ */
+export function editSettingsSync(path: string, mutate: SettingsMutation): boolean {
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const snapshot = parseSnapshot(path, readRawSync(path));
+    if (!mutate(snapshot.data)) return false;
+
+    mkdirSync(dirname(path), { recursive: true });
+    const tmp = tempPathFor(path);
+    writeFileSync(tmp, render(snapshot), 'utf-8');
+    if (snapshot.raw !== null) chmodSync(tmp, statSync(path).mode);
+
+    if (readRawSync(path) !== snapshot.raw) {
+      try { unlinkSync(tmp); } catch { /* already gone */ }
+      continue;
+    }
+
+    if (snapshot.raw !== null) backupSync(path, snapshot.raw);
+    renameSync(tmp, path);
+    return true;
+  }
+  throw new SettingsConflictError(path);
+}
+
+// ============================================
+// Parsing and formatting
+// ============================================
+
+function parseSnapshot(path: string, raw: string | null): SettingsSnapshot {
+  if (raw === null || raw.trim() === '') {
+    const style = { indent: '  ', eol: '\n', finalNewline: true, bom: false };
+    return { raw, text: '', data: {}, original: {}, style };
+  }
+
+  const bom = raw.charCodeAt(0) === 0xfeff;
+  const text = bom ? raw.slice(1) : raw;
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (err) {
+    throw new SettingsParseError(path, err instanceof Error ? err.message : String(err));
+  }
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new SettingsParseError(path, 'top-level value is not an object');
+  }
+
+  const parsed = data as Record<string, unknown>;
+  return { raw, text, data: parsed, original: structuredClone(parsed), style: { ...detectStyle(text), bom } };
+}
+
+function detectStyle(text: string): Omit<JsonStyle, 'bom'> {
+  const indent = /^([ \t]+)\S/m.exec(text)?.[1] ?? '  ';
+  return {
+    indent,
+    eol: text.includes('\r\n') ? '\r\n' : '\n',
+    finalNewline: /\n$/.test(text),
+  };
+}
+
+function serialize(data: Record<string, unknown>, style: JsonStyle): string {
+  // JSON.parse/stringify keep insertion order, so untouched keys stay put
+  let out = JSON.stringify(data, null, style.indent);
+  if (style.eol !== '\n') out = out.replace(/\n/g, style.eol);
+  if (style.finalNewline) out += style.eol;
+  return style.bom ? '\uFEFF' + out : out;
+}
+
+/**
+ * Produce the new file contents by splicing changed top-level members
+ * into the original text. Falls back to a full (style-matched) rewrite
+ * when the original layout can't be mapped, e.g. duplicate keys.
+ */
+function render(snapshot: SettingsSnapshot): string {
+  const { text, data, original, style } = snapshot;
+  const layout = text ? scanTopLevel(text) : null;
+  const keys = layout?.members.map((m) => m.key) ?? [];
+  if (!layout || new Set(keys).size !== keys.length || Object.keys(data).length === 0) {
+    return serialize(data, style);
+  }
+
+  const edits: Array<{ start: number; end: number; text: string }> = [];
+  const { members } = layout;
+
+  members.forEach((m, i) => {
+    if (!(m.key in data)) {
+      // Drop the member along with the comma that separates it from a neighbour
+      const start = i > 0 ? members[i - 1].valueEnd : m.start;
+      const end = i > 0 ? m.valueEnd : members[i + 1]?.start ?? m.valueEnd;
+      edits.push({ start, end, text: '' });
+    } else if (JSON.stringify(data[m.key]) !== JSON.stringify(original[m.key])) {
+      const indent = lineIndent(text, m.start) ?? style.indent;
+      edits.push({ start: m.valueStart, end: m.valueEnd, text: formatValue(data[m.key], indent, style) });
+    }
+  });
+
+  const added = Object.keys(data).filter((k) => !keys.includes(k));
+  if (added.length > 0) {
+    const anchor = members.filter((m) => m.key in data).pop();
+    if (!anchor) return serialize(data, style);
+    const indent = lineIndent(text, anchor.start) ?? style.indent;
+    const insert = added
+      .map((k) => `,${style.eol}${indent}${JSON.stringify(k)}: ${formatValue(data[k], indent, style)}`)
+      .join('');
+    edits.push({ start: anchor.valueEnd, end: anchor.valueEnd, text: insert });
+  }
+
+  let out = text;
+  for (const edit of edits.sort((a, b) => b.start - a.start)) {
+    out = out.slice(0, edit.start) + edit.text + out.slice(edit.end);
+  }
+  return style.bom ? '\uFEFF' + out : out;
+}
+
+/** Serialize a nested value so its continuation lines line up under `indent` */
+function formatValue(value: unknown, indent: string, style: JsonStyle): string {
+  return JSON.stringify(value, null, style.indent).replace(/\n/g, style.eol + indent);
+}
+
+/** Leading whitespace of the line containing `pos`, if only whitespace precedes it */
+function lineIndent(text: string, pos: number): string | null {
+  const lineStart = text.lastIndexOf('\n', pos - 1) + 1;
+  const prefix = text.slice(lineStart, pos);
+  return /^[ \t]*$/.test(prefix) ? prefix : null;
+}
+
+interface MemberSpan {
+  key: string;
+  /** Offset of the key's opening quote */
+  start: number;
+  valueStart: number;
+  /** Offset just past the value */
+  valueEnd: number;
+}
+
+/**
+ * Locate each top-level member of a JSON object. Assumes `text` already
+ * parsed successfully, so only needs to track strings and nesting.
+ */
+function scanTopLevel(text: string): { members: MemberSpan[] } | null {
+  let i = skipWhitespace(text, 0);
+  if (text[i] !== '{') return null;
+  i = skipWhitespace(text, i + 1);
+
+  const members: MemberSpan[] = [];
+  while (text[i] !== '}') {
+    if (text[i] !== '"') return null;
+    const start = i;
+    i = skipString(text, i);
+    const key = JSON.parse(text.slice(start, i)) as string;
+    i = skipWhitespace(text, i);
+    if (text[i] !== ':') return null;
+    const valueStart = skipWhitespace(text, i + 1);
+    const valueEnd = skipValue(text, valueStart);
+    members.push({ key, start, valueStart, valueEnd });
+    i = skipWhitespace(text, valueEnd);
+    if (text[i] === ',') i = skipWhitespace(text, i + 1);
+    else if (text[i] !== '}') return null;
+  }
+  return { members };
+}
+
+function skipWhitespace(text: string, i: number): number {
+  while (i < text.length && /\s/.test(text[i])) i++;
+  return i;
+}
+
+/** Index just past the string starting at `i` (which must be a quote) */
+function skipString(text: string, i: number): number {
+  for (i++; i < text.length; i++) {
+    if (text[i] === '\\') i++;
+    else if (text[i] === '"') return i + 1;
+  }
+  return i;
+}
+
+/** Index just past the value starting at `i` */
+function skipValue(text: string, i: number): number {
+  if (text[i] === '"') return skipString(text, i);
+  if (text[i] === '{' || text[i] === '[') {
+    let depth = 0;
+    while (i < text.length) {
+      const c = text[i];
+      if (c === '"') {
+        i = skipString(text, i);
+        continue;
+      }
+      if (c === '{' || c === '[') depth++;
+      else if (c === '}' || c === ']') depth--;
+      i++;
+      if (depth === 0) return i;
+    }
+    return i;
+  }
+  // Number, true, false, null
+  while (i < text.length && !/[\s,}\]]/.test(text[i])) i++;
+  return i;
+}
+
+// ============================================
+// File helpers
+// ============================================
+
+async function readRaw(path: string): Promise<string | null> {
+  try {
+    return await readFile(path, 'utf-8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw err;
+  }
+}
+
+function readRawSync(path: string): string | null {
+  try {
+    return readFileSync(path, 'utf-8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw err;
+  }
+}
+
+function tempPathFor(path: string): string {
+  return `${path}.${process.pid}.${Date.now()}.tmp`;
+}
+
+/** Backup file prefix for a settings path, e.g. "_home_me_.claude_settings.json." */
+function backupPrefix(path: string): string {
+  return path.replace(/[^a-zA-Z0-9._-]/g, '_') + '.';
+}
+
+function backupName(path: string): string {
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  return join(BACKUP_DIR, `${backupPrefix(path)}${stamp}.bak`);
+}
+
+/** Backups for a settings path, oldest first, beyond the retention limit */
+function expiredBackups(path: string, files: string[]): string[] {
+  const prefix = backupPrefix(path);
+  const ours = files.filter((f) => f.startsWith(prefix) && f.endsWith('.bak')).sort();
+  return ours.slice(0, Math.max(0, ours.length - MAX_BACKUPS)).map((f) => join(BACKUP_DIR, f));
+}
+
+async function backup(path: string, raw: string): Promise<void> {
+  await mkdir(BACKUP_DIR, { recursive: true });
+  await writeFile(backupName(path), raw, 'utf-8');
+  for (const old of expiredBackups(path, await readdir(BACKUP_DIR))) {
+    await unlink(old).catch(() => {});
+  }
+}
+
+function backupSync(path: string, raw: string): void {
+  mkdirSync(BACKUP_DIR, { recursive: true });
+  writeFileSync(backupName(path), raw, 'utf-8');
+  for (const old of expiredBackups(path, readdirSync(BACKUP_DIR))) {
+    try { unlinkSync(old); } catch { /* already gone */ }
+  }
+}
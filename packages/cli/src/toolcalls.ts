@@ -0,0 +1,89 @@
+// ============================================
+// Claudeborne — Tool Call Pairing
+// ============================================
+
+import {
+  eventToAnimation,
+  getSessionId,
+  type ClaudeEvent,
+  type ClaudeEventType,
+  type OpenToolCall,
+} from '@claudeborne/shared';
+
+/** Events that end a turn — any call still open was interrupted or denied */
+const TURN_ENDING_EVENTS: ReadonlySet<ClaudeEventType> = new Set([
+  'assistant_response', 'victory', 'prompt_submit', 'session_start', 'session_end',
+]);
+
+/**
+ * Pairs each PreToolUse with its PostToolUse by `tool_use_id`, so a
+ * result knows how long its call ran and every tool event says which
+ * calls are still running. Claude Code can run several tools at once;
+ * with the open calls on each event the browser can show them all,
+ * and a result that leaves others running doesn't drop to idle.
+ */
+export class ToolCallTracker {
+  /** Open calls per session, oldest first — replaced, never mutated */
+  private open = new Map<string, OpenToolCall[]>();
+  /** For calls whose hook carried no tool_use_id */
+  private anonymousCalls = 0;
+
+  /** Record an event. Returns it with `openCalls` (and `durationMs`) filled in */
+  observe(event: ClaudeEvent): ClaudeEvent {
+    const id = getSessionId(event);
+    const calls = this.open.get(id) ?? [];
+
+    if (event.type === 'tool_use' && event.tool) {
+      const call: OpenToolCall = {
+        id: event.tool.id ?? `anonymous-${++this.anonymousCalls}`,
+        tool: event.tool,
+        animation: event.animation ?? eventToAnimation(event),
+        startedAt: event.timestamp,
+      };
+      const openCalls = [...calls, call];
+      this.open.set(id, openCalls);
+      return { ...event, openCalls };
+    }
+
+    if ((event.type === 'tool_result' || event.type === 'error') && event.tool) {
+      const i = findCall(calls, event.tool);
+      let paired: ClaudeEvent;
+      if (i === -1) {
+        // No matching start — hooks were installed mid-call
+        paired = { ...event, openCalls: calls };
+      } else {
+        const openCalls = calls.filter((_, j) => j !== i);
+        if (openCalls.length > 0) {
+          this.open.set(id, openCalls);
+        } else {
+          this.open.delete(id);
+        }
+        paired = {
+          ...event,
+          durationMs: Math.max(0, event.timestamp - calls[i].startedAt),
+          openCalls,
+        };
+      }
+      // A result left at the default idle goes back to the newest call still running
+      if (paired.type === 'tool_result' && paired.animation === 'idle') {
+        paired.animation = eventToAnimation(paired);
+      }
+      return paired;
+    }
+
+    if (TURN_ENDING_EVENTS.has(event.type) && calls.length > 0) {
+      this.open.delete(id);
+      return { ...event, openCalls: [] };
+    }
+    return event;
+  }
+}
+
+/**
+ * The open call a result belongs to. Without ids (older Claude Code,
+ * hand-made events) the oldest call of the same tool is taken.
+ */
+function findCall(calls: OpenToolCall[], tool: NonNullable<ClaudeEvent['tool']>): number {
+  if (tool.id) return calls.findIndex((call) => call.id === tool.id);
+  return calls.findIndex((call) => call.tool.name === tool.name);
+}
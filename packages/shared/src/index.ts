@@ -66,32 +66,305 @@ export type ClaudeEventType =
   | 'tool_result'
   | 'assistant_response'
   | 'thinking'
-  | 'error';
+  | 'error'
+  | 'prompt_submit'   // user submitted a prompt (a new turn begins)
+  | 'subagent_stop'   // a subagent (Task tool) finished
+  | 'compact'         // context is about to be compacted
+  | 'victory'         // a turn ended in success (derived by the server)
+  | 'awaiting_input'; // blocked on the user — a permission prompt or idle input
 
 /** Tool categories we care about */
-export type ToolCategory = 'edit' | 'bash' | 'read' | 'search' | 'other';
+export type ToolCategory =
+  | 'edit'
+  | 'bash'
+  | 'read'
+  | 'search'
+  | 'web'       // WebFetch, WebSearch
+  | 'plan'      // TodoWrite, ExitPlanMode
+  | 'delegate'  // Task — hands work to a subagent
+  | 'mcp'       // tools served by an MCP server (mcp__<server>__<tool>)
+  | 'other';
+
+/** What a Bash command is for, as far as the visualizer cares */
+export type CommandClass =
+  | 'test'
+  | 'build'
+  | 'commit'
+  | 'push'
+  | 'install'
+  | 'destructive'
+  | 'other';
+
+/** Identity of the Claude Code session an event belongs to */
+export interface SessionIdentity {
+  /** Claude Code's `session_id` */
+  id: string;
+  /** Working directory the session was started in */
+  cwd?: string;
+  /** Path to the session's conversation transcript */
+  transcriptPath?: string;
+}
+
+/** How badly a failed tool call went — minor failures are routine retries */
+export type ErrorSeverity = 'minor' | 'severe';
 
 /** Event sent from CLI to web app over WebSocket */
 export interface ClaudeEvent {
   type: ClaudeEventType;
   timestamp: number;
+  /** Originating session — absent for demo/legacy events */
+  session?: SessionIdentity;
   tool?: {
     name: string;
     category: ToolCategory;
+    /** Claude Code's `tool_use_id`, shared by a call and its result */
+    id?: string;
+    /** Set for Bash calls, from `tool_input.command` */
+    commandClass?: CommandClass;
+    /** Set for MCP tools, parsed from the tool name */
+    mcpServer?: string;
   };
   message?: string;
+  /** Set on `error` events */
+  severity?: ErrorSeverity;
+  /** Animation resolved by the server, custom mapping rules included */
+  animation?: AnimationState;
+  /** Extra flourish requested by a custom mapping rule */
+  effect?: SceneEffect;
+  /** Set on the result (or error) that closes a tool call — how long it ran */
+  durationMs?: number;
+  /**
+   * Tool calls still running in the session once this event is applied,
+   * oldest first. Set on tool events, and on events that end a turn
+   * while calls were open.
+   */
+  openCalls?: OpenToolCall[];
+}
+
+/** A tool call that has started but not yet returned its result */
+export interface OpenToolCall {
+  /** `tool_use_id`, or one made up by the server when the hook had none */
+  id: string;
+  tool: NonNullable<ClaudeEvent['tool']>;
+  /** What the character does while the call runs */
+  animation: AnimationState;
+  /** When the call started (ms since epoch) */
+  startedAt: number;
+}
+
+/** Session key used for events that carry no session identity */
+export const DEFAULT_SESSION_ID = 'default';
+
+/** Resolve the session key an event should be routed to */
+export function getSessionId(event: ClaudeEvent): string {
+  return event.session?.id ?? DEFAULT_SESSION_ID;
+}
+
+/** Short display name for a session (last segment of its cwd) */
+export function getSessionLabel(session: SessionIdentity): string {
+  if (session.cwd) {
+    const parts = session.cwd.split(/[\\/]/).filter(Boolean);
+    if (parts.length > 0) return parts[parts.length - 1];
+  }
+  return session.id.slice(0, 8);
 }
 
 /** Categorize a tool name into a broad category */
 export function categorizeToolName(toolName: string): ToolCategory {
   const name = toolName.toLowerCase();
-  if (name === 'edit' || name === 'write' || name === 'notebookedit') return 'edit';
+  if (name === 'edit' || name === 'write' || name === 'multiedit' || name === 'notebookedit') return 'edit';
   if (name === 'bash') return 'bash';
   if (name === 'read') return 'read';
   if (name === 'grep' || name === 'glob') return 'search';
+  if (name === 'webfetch' || name === 'websearch') return 'web';
+  if (name === 'todowrite' || name === 'exitplanmode') return 'plan';
+  if (name === 'task') return 'delegate';
+  if (parseMcpToolName(toolName)) return 'mcp';
+  return 'other';
+}
+
+/**
+ * Split an MCP tool name (`mcp__<server>__<tool>`) into its server and
+ * tool. Returns null for anything that isn't one.
+ */
+export function parseMcpToolName(toolName: string): { server: string; tool: string } | null {
+  const match = /^mcp__(.+?)__(.+)$/.exec(toolName);
+  return match ? { server: match[1], tool: match[2] } : null;
+}
+
+// Each pattern matches from the start of one command in a chain (see
+// classifyCommand). Checked in this order — the first class any part of a
+// chain matches wins, so `npm test && git push --force` is destructive.
+const COMMAND_PATTERNS: Array<[CommandClass, RegExp]> = [
+  ['destructive', new RegExp([
+    // rm with a recursive and a force flag, short or long, in any order
+    /^rm\s(?=(?:.*\s)?(?:-[a-zA-Z]*[rR]|--recursive\b))(?=(?:.*\s)?(?:-[a-zA-Z]*f|--force\b))/,
+    /^git\s+reset\s+(?:.*\s)?--hard\b/,
+    /^git\s+clean\s+(?:.*\s)?-[a-zA-Z]*f/,
+    /^git\s+push\s+(?:.*\s)?(?:--force\b|-f\b)/,
+    /^git\s+branch\s+(?:.*\s)?-D\b/,
+    /^git\s+(?:checkout|restore)\s+(?:--\s+)?\.(?:\s|$)/,
+    /^mkfs\b/,
+    /^dd\s+.*\bof=/,
+    // SQL handed to a database client, or typed straight in — not a commit message or grep
+    // (no /i: flags are dropped by the join)
+    /^(?:(?:psql|mysql|mariadb|sqlite3|sqlcmd|duckdb|clickhouse-client|cockroach\s+sql)\b.*)?\b(?:drop|DROP)\s+(?:table|TABLE|database|DATABASE)\b/,
+  ].map((r) => r.source).join('|'))],
+  ['commit', /^git\s+commit\b/],
+  ['push', /^git\s+push\b/],
+  ['test', /^(?:(?:npm|pnpm|yarn|bun)\s+(?:run\s+)?test(?::\S*)?|npm\s+t|vitest|jest|mocha|playwright\s+test|pytest|python3?\s+-m\s+(?:pytest|unittest)|go\s+test|cargo\s+test|deno\s+test|make\s+(?:test|check)|rspec|phpunit|dotnet\s+test|mvn\s+test|gradle\s+test)\b/],
+  ['build', /^(?:(?:npm|pnpm|yarn|bun)\s+(?:run\s+)?build|tsc|vite\s+build|webpack|esbuild|go\s+build|cargo\s+build|make|cmake|mvn\s+(?:package|compile)|gradle\s+build|dotnet\s+build|docker\s+build)\b/],
+  ['install', /^(?:(?:npm|pnpm|bun)\s+(?:install|i|add|ci)|yarn\s+(?:install|add)|pip3?\s+install|uv\s+(?:add|pip\s+install)|poetry\s+(?:add|install)|cargo\s+(?:add|install)|go\s+(?:get|install)|brew\s+install|apt(?:-get)?\s+install|gem\s+install|bundle\s+install|composer\s+(?:install|require))\b/],
+];
+
+/** Env assignments and wrappers in front of the real command: `CI=1 sudo npx ...` */
+const COMMAND_PREFIX = /^(?:\w+=\S*\s+)*(?:(?:sudo|time|exec|npx|bunx|pnpm\s+exec|uv\s+run|poetry\s+run)\s+)*/;
+
+/** `git -C <dir>` in front of a git subcommand: `git -C ../app push` */
+const GIT_DIR_OPTION = /^git\s+(?:-C\s+(?:"[^"]*"|'[^']*'|\S+)\s+)+/;
+
+/**
+ * Split `a && b || c; d | e` into its commands. Separators inside quotes
+ * are part of an argument — `git commit -m "a; rm -rf /"` is one command.
+ */
+function splitCommands(command: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quote: '"' | "'" | null = null;
+  for (let i = 0; i < command.length; i++) {
+    const c = command[i];
+    if (quote) {
+      // Backslash escapes only inside double quotes
+      if (c === '\\' && quote === '"' && i + 1 < command.length) {
+        current += c + command[++i];
+        continue;
+      }
+      if (c === quote) quote = null;
+      current += c;
+      continue;
+    }
+    if (c === '\\' && i + 1 < command.length) {
+      current += c + command[++i];
+      continue;
+    }
+    if (c === '"' || c === "'") {
+      quote = c;
+      current += c;
+      continue;
+    }
+    const pair = command.slice(i, i + 2);
+    if (pair === '&&' || pair === '||') {
+      parts.push(current);
+      current = '';
+      i++;
+      continue;
+    }
+    if (c === ';' || c === '|' || c === '\n') {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    current += c;
+  }
+  parts.push(current);
+  return parts;
+}
+
+/** Classify a shell command by the first of COMMAND_PATTERNS any part of it matches */
+export function classifyCommand(command: string): CommandClass {
+  const parts = splitCommands(command).map((part) =>
+    part.trim().replace(COMMAND_PREFIX, '').replace(GIT_DIR_OPTION, 'git '),
+  );
+  for (const [commandClass, pattern] of COMMAND_PATTERNS) {
+    if (parts.some((part) => pattern.test(part))) return commandClass;
+  }
   return 'other';
 }
 
+// ============================================
+// Claude Code Hook Payloads
+// (JSON each hook receives on stdin)
+// ============================================
+
+/** Fields common to every hook payload */
+export interface HookPayloadBase {
+  session_id: string;
+  /** Path to the session's conversation transcript (JSONL) */
+  transcript_path?: string;
+  cwd?: string;
+}
+
+export interface SessionStartPayload extends HookPayloadBase {
+  hook_event_name: 'SessionStart';
+  /** e.g. startup, resume, clear, compact */
+  source?: string;
+}
+
+export interface SessionEndPayload extends HookPayloadBase {
+  hook_event_name: 'SessionEnd';
+  /** e.g. clear, logout, prompt_input_exit, other */
+  reason?: string;
+}
+
+export interface UserPromptSubmitPayload extends HookPayloadBase {
+  hook_event_name: 'UserPromptSubmit';
+  prompt: string;
+}
+
+export interface PreToolUsePayload extends HookPayloadBase {
+  hook_event_name: 'PreToolUse';
+  tool_name: string;
+  tool_input: Record<string, unknown>;
+  /** Pairs the call with its PostToolUse (absent from older Claude Code) */
+  tool_use_id?: string;
+}
+
+export interface PostToolUsePayload extends HookPayloadBase {
+  hook_event_name: 'PostToolUse';
+  tool_name: string;
+  tool_input: Record<string, unknown>;
+  tool_use_id?: string;
+  /** Tool-specific result — a string or an object, depending on the tool */
+  tool_response: unknown;
+}
+
+export interface NotificationPayload extends HookPayloadBase {
+  hook_event_name: 'Notification';
+  message: string;
+}
+
+export interface StopPayload extends HookPayloadBase {
+  hook_event_name: 'Stop';
+  /** True when Claude is already continuing because of a Stop hook */
+  stop_hook_active: boolean;
+}
+
+export interface SubagentStopPayload extends HookPayloadBase {
+  hook_event_name: 'SubagentStop';
+  stop_hook_active: boolean;
+}
+
+export interface PreCompactPayload extends HookPayloadBase {
+  hook_event_name: 'PreCompact';
+  /** manual (/compact) or auto (context window full) */
+  trigger: string;
+  custom_instructions?: string;
+}
+
+export type HookPayload =
+  | SessionStartPayload
+  | SessionEndPayload
+  | UserPromptSubmitPayload
+  | PreToolUsePayload
+  | PostToolUsePayload
+  | NotificationPayload
+  | StopPayload
+  | SubagentStopPayload
+  | PreCompactPayload;
+
+/** Hook event names Claude Code sends in `hook_event_name` */
+export type HookEventName = HookPayload['hook_event_name'];
+
 // ============================================
 // Character Animation States
 // ============================================
@@ -106,8 +379,34 @@ export type AnimationState =
   | 'stagger'    // error
   | 'victory'    // task complete
   | 'rest'       // idle timeout
+  | 'dormant'    // long idle timeout — deep sleep
+  | 'awaiting'   // waiting on the player — summon sign shown
+  | 'duel'       // running tests — boss-fight stance
+  | 'smith'      // running a build
+  | 'seal'       // git commit — kindling the bonfire
+  | 'dispatch'   // git push — sending word out into the world
+  | 'gather'     // installing packages
+  | 'trap'       // destructive command — warning
   | 'enter'      // session start
-  | 'exit';      // session end
+  | 'exit'       // session end
+  | 'embark'     // prompt submitted — a new quest begins
+  | 'dismiss'    // subagent finished — the summon departs
+  | 'kindle'     // context compaction — rest at the bonfire
+  | 'scout'      // web fetch/search — looking out to the horizon
+  | 'survey'     // planning — charting the road ahead
+  | 'summon'     // delegating to a subagent — calling a phantom
+  | 'channel';   // MCP tool — drawing on an outside power
+
+/** One-off flourishes a custom mapping rule can add to its animation */
+export type SceneEffect =
+  | 'fire'
+  | 'embers'
+  | 'souls'
+  | 'grace'
+  | 'blood'
+  | 'flash'   // brief screen flash
+  | 'shake'   // screen shake
+  | 'flare';  // the scene's light swells
 
 /** Map Claude events to character animation states */
 export function eventToAnimation(event: ClaudeEvent): AnimationState {
@@ -122,13 +421,30 @@ export function eventToAnimation(event: ClaudeEvent): AnimationState {
       return 'stagger';
     case 'assistant_response':
       return 'idle';
+    case 'prompt_submit':
+      return 'embark';
+    case 'subagent_stop':
+      return 'dismiss';
+    case 'compact':
+      return 'kindle';
+    case 'victory':
+      return 'victory';
+    case 'awaiting_input':
+      return 'awaiting';
+    case 'tool_result':
+      // Parallel calls still running carry on instead of dropping to idle
+      return event.openCalls?.at(-1)?.animation ?? 'idle';
     case 'tool_use':
       if (!event.tool) return 'idle';
       switch (event.tool.category) {
         case 'edit': return 'inscribe';
-        case 'bash': return 'forge';
+        case 'bash': return commandAnimation(event.tool.commandClass);
         case 'read': return 'read';
         case 'search': return 'read';
+        case 'web': return 'scout';
+        case 'plan': return 'survey';
+        case 'delegate': return 'summon';
+        case 'mcp': return 'channel';
         default: return 'idle';
       }
     default:
@@ -136,6 +452,18 @@ export function eventToAnimation(event: ClaudeEvent): AnimationState {
   }
 }
 
+function commandAnimation(commandClass: CommandClass | undefined): AnimationState {
+  switch (commandClass) {
+    case 'test': return 'duel';
+    case 'build': return 'smith';
+    case 'commit': return 'seal';
+    case 'push': return 'dispatch';
+    case 'install': return 'gather';
+    case 'destructive': return 'trap';
+    default: return 'forge';
+  }
+}
+
 // ============================================
 // WebSocket Protocol
 // ============================================
@@ -144,7 +472,288 @@ export const WS_PORT = 19280;
 export const HTTP_PORT = 19281;
 export const WEB_PORT = 19282;
 
-export interface WsMessage {
-  type: 'event' | 'scene_init' | 'ping' | 'pong';
-  payload: ClaudeEvent | { sceneId: SceneId } | Record<string, never>;
+/** The scene browsers should show, and the project it was chosen for */
+export interface SceneInitPayload {
+  sceneId: SceneId;
+  /** Project name shown as the area name on the title card */
+  project?: string;
+}
+
+/** Where one session stands, for a browser that connects mid-session */
+export interface SessionSnapshot {
+  id: string;
+  cwd?: string;
+  /** The session's most recent event — what its character is doing now */
+  lastEvent: ClaudeEvent;
+  /** Tool calls started but not yet finished, oldest first */
+  openCalls: OpenToolCall[];
+  eventCount: number;
+  toolCalls: number;
+  errors: number;
+}
+
+/** Sent to each browser on connect so it can fast-forward to the present */
+export interface StateSnapshot {
+  sessions: SessionSnapshot[];
+  /** Most recent events across all sessions, oldest first */
+  recent: ClaudeEvent[];
+  /** Events broadcast since the server started */
+  eventCount: number;
+  /** The server's clock when the snapshot was taken, so timestamps can be moved onto the browser's */
+  serverTime?: number;
+}
+
+/** Client → server: switch every browser to a scene */
+export interface SetScenePayload {
+  sceneId: SceneId;
+}
+
+/**
+ * Bump whenever a message changes in a way the other side can't ignore.
+ * The published CLI and a dev build of the web app often differ, so
+ * both ends say which version they speak before anything else.
+ */
+export const PROTOCOL_VERSION = 3;
+
+/** Close codes for connections the server turns away */
+export const WS_CLOSE_NO_HELLO = 4001;
+export const WS_CLOSE_INCOMPATIBLE = 4002;
+
+/** Client → server, first message on every connection */
+export interface HelloPayload {
+  protocolVersion: number;
+  /** What is connecting, e.g. `web` */
+  client: string;
+}
+
+/** Server → client, once the hello is accepted */
+export interface WelcomePayload {
+  protocolVersion: number;
+}
+
+/** Server → client, just before it closes a connection it can't serve */
+export interface ProtocolErrorPayload {
+  code: 'incompatible_version' | 'hello_expected';
+  /** Explains what to do about it, for display */
+  message: string;
+}
+
+type Empty = Record<string, never>;
+
+/**
+ * Messages the server sends. After `welcome` comes `scene_init`, then
+ * `event`, `scene_change` (every browser moves to a new scene) and `ping`
+ * as they happen, and a `snapshot` whenever one is requested.
+ */
+export type ServerMessage =
+  | { type: 'welcome'; payload: WelcomePayload }
+  | { type: 'protocol_error'; payload: ProtocolErrorPayload }
+  | { type: 'scene_init'; payload: SceneInitPayload }
+  | { type: 'scene_change'; payload: SceneInitPayload }
+  | { type: 'snapshot'; payload: StateSnapshot }
+  | { type: 'event'; payload: ClaudeEvent }
+  | { type: 'ping'; payload: Empty };
+
+/**
+ * Messages a browser sends: `hello` first, then `request_snapshot` to
+ * catch up (on every connect, so nothing missed while away is lost),
+ * `pong` for each `ping`, and commands.
+ */
+export type ClientMessage =
+  | { type: 'hello'; payload: HelloPayload }
+  | { type: 'request_snapshot'; payload: Empty }
+  | { type: 'pong'; payload: Empty }
+  | { type: 'set_scene'; payload: SetScenePayload };
+
+/**
+ * Explain a version mismatch between page and server, or return null
+ * when they can talk. Always names the side that needs updating.
+ */
+export function describeProtocolMismatch(clientVersion: number, serverVersion: number): string | null {
+  if (clientVersion === serverVersion) return null;
+  return clientVersion < serverVersion
+    ? `This page speaks protocol v${clientVersion} but the server speaks v${serverVersion}. Reload the page, or rebuild the web app, to update it.`
+    : `This page speaks protocol v${clientVersion} but the server speaks v${serverVersion}. Update the server (npx claudeborne@latest) or restart it from this checkout.`;
+}
+
+// ============================================
+// Runtime Validation
+// ============================================
+// Hand-written guards for everything that crosses the wire. Records
+// rather than arrays, so adding a member to one of the unions above
+// without accepting it here is a type error.
+
+const CLAUDE_EVENT_TYPES: Record<ClaudeEventType, true> = {
+  session_start: true, session_end: true, tool_use: true, tool_result: true,
+  assistant_response: true, thinking: true, error: true, prompt_submit: true,
+  subagent_stop: true, compact: true, victory: true, awaiting_input: true,
+};
+
+const TOOL_CATEGORIES: Record<ToolCategory, true> = {
+  edit: true, bash: true, read: true, search: true, web: true,
+  plan: true, delegate: true, mcp: true, other: true,
+};
+
+const COMMAND_CLASSES: Record<CommandClass, true> = {
+  test: true, build: true, commit: true, push: true, install: true,
+  destructive: true, other: true,
+};
+
+const ANIMATION_STATES: Record<AnimationState, true> = {
+  idle: true, walk: true, inscribe: true, read: true, forge: true,
+  meditate: true, stagger: true, victory: true, rest: true, dormant: true,
+  awaiting: true, duel: true, smith: true, seal: true, dispatch: true,
+  gather: true, trap: true, enter: true, exit: true, embark: true,
+  dismiss: true, kindle: true, scout: true, survey: true, summon: true,
+  channel: true,
+};
+
+const SCENE_EFFECTS: Record<SceneEffect, true> = {
+  fire: true, embers: true, souls: true, grace: true, blood: true,
+  flash: true, shake: true, flare: true,
+};
+
+function oneOf<T extends string>(members: Record<T, true>) {
+  return (value: unknown): value is T => typeof value === 'string' && Object.hasOwn(members, value);
+}
+
+export const isClaudeEventType = oneOf(CLAUDE_EVENT_TYPES);
+export const isToolCategory = oneOf(TOOL_CATEGORIES);
+export const isCommandClass = oneOf(COMMAND_CLASSES);
+export const isAnimationState = oneOf(ANIMATION_STATES);
+export const isSceneEffect = oneOf(SCENE_EFFECTS);
+
+/** Every animation state and effect, for listing in error messages */
+export const ANIMATION_STATE_NAMES = Object.keys(ANIMATION_STATES) as AnimationState[];
+export const SCENE_EFFECT_NAMES = Object.keys(SCENE_EFFECTS) as SceneEffect[];
+
+export function isSceneId(value: unknown): value is SceneId {
+  return SCENES.some((s) => s.id === value);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isOptional<T>(value: unknown, guard: (v: unknown) => v is T): value is T | undefined {
+  return value === undefined || guard(value);
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === 'string';
+}
+
+function isCount(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+function isSessionIdentity(value: unknown): value is SessionIdentity {
+  return isObject(value)
+    && isString(value.id)
+    && isOptional(value.cwd, isString)
+    && isOptional(value.transcriptPath, isString);
+}
+
+function isEventTool(value: unknown): value is NonNullable<ClaudeEvent['tool']> {
+  return isObject(value)
+    && isString(value.name)
+    && isToolCategory(value.category)
+    && isOptional(value.id, isString)
+    && isOptional(value.commandClass, isCommandClass)
+    && isOptional(value.mcpServer, isString);
+}
+
+export function isClaudeEvent(value: unknown): value is ClaudeEvent {
+  return isObject(value)
+    && isClaudeEventType(value.type)
+    && typeof value.timestamp === 'number'
+    && isOptional(value.session, isSessionIdentity)
+    && isOptional(value.tool, isEventTool)
+    && isOptional(value.message, isString)
+    && isOptional(value.severity, (v): v is ErrorSeverity => v === 'minor' || v === 'severe')
+    && isOptional(value.animation, isAnimationState)
+    && isOptional(value.effect, isSceneEffect)
+    && isOptional(value.durationMs, isCount)
+    && isOptional(value.openCalls, isOpenToolCalls);
+}
+
+function isOpenToolCall(value: unknown): value is OpenToolCall {
+  return isObject(value)
+    && isString(value.id)
+    && isEventTool(value.tool)
+    && isAnimationState(value.animation)
+    && typeof value.startedAt === 'number';
+}
+
+function isOpenToolCalls(value: unknown): value is OpenToolCall[] {
+  return Array.isArray(value) && value.every(isOpenToolCall);
+}
+
+function isSceneInitPayload(value: unknown): value is SceneInitPayload {
+  return isObject(value) && isSceneId(value.sceneId) && isOptional(value.project, isString);
+}
+
+function isSessionSnapshot(value: unknown): value is SessionSnapshot {
+  return isObject(value)
+    && isString(value.id)
+    && isOptional(value.cwd, isString)
+    && isClaudeEvent(value.lastEvent)
+    && isOpenToolCalls(value.openCalls)
+    && isCount(value.eventCount)
+    && isCount(value.toolCalls)
+    && isCount(value.errors);
+}
+
+function isStateSnapshot(value: unknown): value is StateSnapshot {
+  return isObject(value)
+    && Array.isArray(value.sessions) && value.sessions.every(isSessionSnapshot)
+    && Array.isArray(value.recent) && value.recent.every(isClaudeEvent)
+    && isCount(value.eventCount)
+    && isOptional(value.serverTime, isCount);
+}
+
+/** Validate a decoded server message, or return null if it isn't one */
+export function parseServerMessage(data: unknown): ServerMessage | null {
+  if (!isObject(data) || !isObject(data.payload)) return null;
+  const payload = data.payload;
+
+  switch (data.type) {
+    case 'welcome':
+      return typeof payload.protocolVersion === 'number' ? { type: data.type, payload: { protocolVersion: payload.protocolVersion } } : null;
+    case 'protocol_error':
+      return (payload.code === 'incompatible_version' || payload.code === 'hello_expected') && isString(payload.message)
+        ? { type: data.type, payload: { code: payload.code, message: payload.message } }
+        : null;
+    case 'scene_init':
+    case 'scene_change':
+      return isSceneInitPayload(payload) ? { type: data.type, payload } : null;
+    case 'snapshot':
+      return isStateSnapshot(payload) ? { type: data.type, payload } : null;
+    case 'event':
+      return isClaudeEvent(payload) ? { type: data.type, payload } : null;
+    case 'ping':
+      return { type: data.type, payload: {} };
+    default:
+      return null;
+  }
+}
+
+/** Validate a decoded client message, or return null if it isn't one */
+export function parseClientMessage(data: unknown): ClientMessage | null {
+  if (!isObject(data) || !isObject(data.payload)) return null;
+  const payload = data.payload;
+
+  switch (data.type) {
+    case 'hello':
+      return typeof payload.protocolVersion === 'number' && isString(payload.client)
+        ? { type: data.type, payload: { protocolVersion: payload.protocolVersion, client: payload.client } }
+        : null;
+    case 'request_snapshot':
+    case 'pong':
+      return { type: data.type, payload: {} };
+    case 'set_scene':
+      return isSceneId(payload.sceneId) ? { type: data.type, payload: { sceneId: payload.sceneId } } : null;
+    default:
+      return null;
+  }
 }
@@ -1,7 +1,9 @@
 import { GameCanvas } from './components/GameCanvas';
 import { useWebSocket } from './hooks/useWebSocket';
+import { useIdleTimer } from './hooks/useIdleTimer';
 
 export default function App() {
   useWebSocket();
+  useIdleTimer();
   return <GameCanvas />;
 }
@@ -6,17 +6,28 @@
 // ============================================
 
 import type { Point } from '../engine/types';
-import type { AnimationState, CharacterType } from '@claudeborne/shared';
+import type { AnimationState, CharacterType, ErrorSeverity, SceneEffect } from '@claudeborne/shared';
 import { AnimationController } from '../engine/animation';
 import { drawSprite } from '../engine/renderer';
 import { flipSpriteH } from '../engine/spriteUtils';
 import { getCharacterAssets } from './index';
+import {
+  DEFAULT_STANCE,
+  isInterruptible,
+  returnStateOf,
+  stanceOf,
+  transitionBetween,
+  type AnimationStateGraph,
+  type StanceDef,
+  type TransitionClip,
+} from '../engine/stateGraph';
 import {
   ImageSpriteManager,
   LpcAnimator,
   LpcDirection,
   type LpcAnimationDef,
 } from '../engine/imageSprite';
+import type { LpcOutfit } from '../engine/lpcOutfit';
 
 /** Pixels per second in world coordinates — deliberate FromSoft pace */
 const WALK_SPEED = 60;
@@ -24,6 +35,48 @@ const WALK_SPEED = 60;
 /** Distance threshold (in world pixels) to consider "arrived" */
 const ARRIVE_THRESHOLD = 2;
 
+/**
+ * Shortest time (seconds) an action is performed before the next queued
+ * one may start, counted from arrival. States that only mark waiting give
+ * way at once; moments worth seeing hold a little longer.
+ */
+const MIN_DWELL: Partial<Record<AnimationState, number>> = {
+  idle: 0,
+  rest: 0,
+  dormant: 0,
+  awaiting: 0,
+  meditate: 0.4,
+  stagger: 0.8,
+  victory: 2,
+  enter: 0,
+  exit: 0,
+};
+const DEFAULT_DWELL = 1;
+
+/** Queued actions kept waiting — older ones are dropped past this */
+const MAX_QUEUED = 4;
+
+/** Dwell is cut to this fraction while more than one action is waiting */
+const CATCH_UP_DWELL_FACTOR = 0.5;
+
+/**
+ * Where the character is in getting to its current state: playing the
+ * old stance's exit clip, walking, playing the new stance's enter clip,
+ * or performing the state itself.
+ */
+type Phase = 'leaving' | 'walking' | 'arriving' | 'performing';
+
+/** What an event asked for alongside its state, handed back when the state starts */
+export interface StateCue {
+  severity?: ErrorSeverity;
+  effect?: SceneEffect;
+}
+
+interface QueuedState {
+  state: AnimationState;
+  cue?: StateCue;
+}
+
 export class CharacterController {
   /** Current position in world coordinates */
   position: Point;
@@ -37,9 +90,25 @@ export class CharacterController {
   facing: 'left' | 'right';
   /** Animation controller — programmatic fallback */
   animator: AnimationController;
+  /** Horizontal offset applied to every action position, so several
+   *  characters sharing a scene don't stand on top of each other */
+  slotOffset: number = 0;
+  /**
+   * Called as each state starts — not when it is asked for, since it may
+   * wait in the queue — with where the state is performed
+   */
+  onStateStart: ((state: AnimationState, at: Point, cue?: StateCue) => void) | null = null;
 
-  /** Whether the character is currently walking to a target */
-  private walking: boolean = false;
+  /** How far along the way to `currentState` the character is */
+  private phase: Phase = 'performing';
+  /** Clip to play on arrival, before `currentState` itself */
+  private enterClip: TransitionClip | null = null;
+  /** Transition clips, interruptibility and return-to-idle rules */
+  private stateGraph: AnimationStateGraph;
+  /** States asked for but not started yet, oldest first */
+  private queue: QueuedState[] = [];
+  /** Seconds the current state has been performed (transitions excluded) */
+  private dwell: number = 0;
   /** Per-state target positions */
   private actionPositions: Partial<Record<AnimationState, Point>> = {};
 
@@ -53,6 +122,8 @@ export class CharacterController {
   private lpcSheetPrefix: string = '';
   /** Base animation definitions (before direction override) */
   private lpcBaseAnims: Record<string, LpcAnimationDef> = {};
+  /** Layers drawn instead of the flattened sheets, where they cover the animation */
+  private lpcOutfit: LpcOutfit | null = null;
 
   constructor(type: CharacterType, startPosition: Point) {
     this.type = type;
@@ -62,6 +133,7 @@ export class CharacterController {
     this.facing = 'right';
 
     const assets = getCharacterAssets(type);
+    this.stateGraph = assets.stateGraph;
     this.animator = new AnimationController(assets.spriteSheet, assets.animations);
     this.animator.play('idle');
   }
@@ -76,15 +148,18 @@ export class CharacterController {
     frameSize: number,
     scale: number,
     animations: Record<AnimationState, LpcAnimationDef>,
+    clips: Record<TransitionClip, LpcAnimationDef>,
+    outfit?: LpcOutfit,
   ): void {
     this.lpcManager = manager;
+    this.lpcOutfit = outfit ?? null;
     this.lpcSheetPrefix = sheetPrefix;
     this.lpcFrameSize = frameSize;
     this.lpcScale = scale;
     this.lpcBaseAnims = { ...animations };
 
     const animator = new LpcAnimator();
-    for (const [name, def] of Object.entries(animations)) {
+    for (const [name, def] of Object.entries({ ...animations, ...clips })) {
       // Store with prefixed sheet key so the manager can find it
       animator.defineAnimation(name, {
         ...def,
@@ -108,23 +183,136 @@ export class CharacterController {
   }
 
   /**
-   * Set a new animation state. The character walks to the associated
-   * prop position, then plays the state's animation.
+   * Ask for a new animation state. It starts once the current action has
+   * been performed for its minimum dwell, so a burst of tool calls reads
+   * as a sequence instead of a walk redirected on every event:
+   *
+   * - a repeat of a looping state already queued (or playing, with nothing
+   *   queued) is coalesced into it — Read, Grep, Read is one `read`
+   * - a repeated one-shot (a second stagger) is queued to play again
+   * - past MAX_QUEUED the oldest waiting actions are dropped, and dwell
+   *   shortens while a backlog remains, so the scene catches up
+   * - `exit` jumps the queue — a leaving character never waits
+   *
+   * A `cue` comes back through onStateStart when the state starts; one on
+   * a coalesced repeat joins the entry it merged into.
+   */
+  setState(state: AnimationState, cue?: StateCue): void {
+    if (state === 'exit') {
+      this.queue = [];
+      this.startState(state);
+      return;
+    }
+
+    if (state === this.latestState && this.loops(state)) {
+      const last = this.queue.at(-1);
+      if (!cue) return;
+      if (last) {
+        last.cue = { ...last.cue, severity: cue.severity ?? last.cue?.severity, effect: cue.effect ?? last.cue?.effect };
+      } else {
+        // Already performing it — the cue plays where the character is
+        this.onStateStart?.(state, this.targetFor(state), cue);
+      }
+      return;
+    }
+    this.queue.push({ state, cue });
+    if (this.queue.length > MAX_QUEUED) {
+      this.queue.splice(0, this.queue.length - MAX_QUEUED);
+    }
+    this.advanceQueue();
+  }
+
+  /** The state the character will end up in once its queue drains */
+  get latestState(): AnimationState {
+    return this.queue.at(-1)?.state ?? this.currentState;
+  }
+
+  /**
+   * Start the next queued state if the current one has had its time. A
+   * one-shot the graph marks uninterruptible plays to its last frame
+   * first; with nothing queued, a finished one-shot settles into the
+   * state the graph returns it to.
+   */
+  private advanceQueue(): void {
+    if (this.phase !== 'performing') return;
+    const state = this.currentState;
+    const finished = this.isAnimationFinished();
+    if (!finished && !this.loops(state) && !isInterruptible(this.stateGraph, state)) return;
+
+    const minDwell = MIN_DWELL[state] ?? DEFAULT_DWELL;
+    if (this.queue.length === 0) {
+      const returnTo = returnStateOf(this.stateGraph, state);
+      if (returnTo && finished && this.dwell >= minDwell) this.startState(returnTo);
+      return;
+    }
+    const factor = this.queue.length > 1 ? CATCH_UP_DWELL_FACTOR : 1;
+    if (this.dwell < minDwell * factor) return;
+    const next = this.queue.shift()!;
+    this.startState(next.state, next.cue);
+  }
+
+  /** Whether a state's animation loops (one-shots replay when repeated) */
+  private loops(state: AnimationState): boolean {
+    if (this.useLpc) return this.lpcBaseAnims[state]?.loop ?? false;
+    return this.animator.isLooping(state);
+  }
+
+  /**
+   * Switch to a state now. Changing stance plays the old stance's exit
+   * clip where the character stands, then it walks to the state's prop
+   * position and plays the new stance's enter clip before the state's
+   * own animation. Starting the current state again replays a one-shot
+   * animation.
    */
-  setState(state: AnimationState): void {
+  private startState(state: AnimationState, cue?: StateCue): void {
+    const from = this.currentState;
+    const settled = this.phase === 'performing';
     this.currentState = state;
+    this.dwell = 0;
+    this.onStateStart?.(state, this.targetFor(state), cue);
+
+    // Already clearing the old stance — update() carries on from there
+    if (this.phase === 'leaving') return;
+
+    // Walking, the character is standing whatever it was heading for
+    const transition: StanceDef = settled
+      ? transitionBetween(this.stateGraph, from, state)
+      : { enter: this.enterClipOf(state) };
+    this.enterClip = transition.enter ?? null;
+    if (transition.exit) {
+      this.phase = 'leaving';
+      this.playClip(transition.exit);
+      return;
+    }
+    this.moveTo(state, settled && state === from);
+  }
 
-    // Look up the target position for this state
+  /** The clip that takes a standing character into a state's stance */
+  private enterClipOf(state: AnimationState): TransitionClip | undefined {
+    const stance = stanceOf(this.stateGraph, state);
+    return stance === DEFAULT_STANCE ? undefined : this.stateGraph.stances[stance]?.enter;
+  }
+
+  /** Where a state is performed: its prop position, or here if it has none */
+  private targetFor(state: AnimationState): Point {
     const target = this.actionPositions[state];
-    if (target) {
-      this.targetPosition = { ...target };
+    if (!target) return { ...this.position };
+    // Everyone leaves through the same spot, so exit ignores the slot
+    const offset = state === 'exit' ? 0 : this.slotOffset;
+    return { x: target.x + offset, y: target.y };
+  }
+
+  /** Walk to the state's prop position, or arrive at once if already there */
+  private moveTo(state: AnimationState, repeat: boolean = false): void {
+    if (this.actionPositions[state]) {
+      this.targetPosition = this.targetFor(state);
       const dx = this.targetPosition.x - this.position.x;
       const dy = this.targetPosition.y - this.position.y;
       const dist = Math.sqrt(dx * dx + dy * dy);
 
       if (dist > ARRIVE_THRESHOLD) {
         // Need to walk there first
-        this.walking = true;
+        this.phase = 'walking';
         if (dx !== 0) {
           this.facing = dx > 0 ? 'right' : 'left';
         }
@@ -134,10 +322,32 @@ export class CharacterController {
       }
     }
 
-    // Already at target or no target defined — play the state animation directly
-    this.walking = false;
-    this.animator.play(state);
-    this.playLpcState(state);
+    // Already at target or no target defined
+    this.arrive(repeat);
+  }
+
+  /** Play the pending enter clip, if any, then the state itself */
+  private arrive(repeat: boolean = false): void {
+    if (this.enterClip) {
+      this.phase = 'arriving';
+      this.playClip(this.enterClip);
+      this.enterClip = null;
+      return;
+    }
+    this.phase = 'performing';
+    this.animator.play(this.currentState, repeat);
+    this.playLpcState(this.currentState, repeat);
+  }
+
+  /** Play a transition clip on both animators */
+  private playClip(clip: TransitionClip): void {
+    this.animator.play(clip);
+    this.lpcAnimator?.play(clip);
+  }
+
+  /** Whether the character is performing its state, not on its way to it */
+  get isSettled(): boolean {
+    return this.phase === 'performing';
   }
 
   /**
@@ -153,51 +363,57 @@ export class CharacterController {
   /**
    * Play a state animation on the LPC animator.
    */
-  private playLpcState(state: AnimationState): void {
+  private playLpcState(state: AnimationState, restart: boolean = false): void {
     if (!this.lpcAnimator) return;
-    this.lpcAnimator.play(state);
+    this.lpcAnimator.play(state, restart);
   }
 
   /**
    * Update position (walk towards target) and animation.
    */
   update(dt: number): void {
-    if (this.walking) {
+    if (this.phase === 'leaving' && this.isAnimationFinished()) {
+      this.moveTo(this.currentState);
+    }
+
+    if (this.phase === 'walking') {
       const dx = this.targetPosition.x - this.position.x;
       const dy = this.targetPosition.y - this.position.y;
       const dist = Math.sqrt(dx * dx + dy * dy);
+      const step = WALK_SPEED * dt;
 
-      if (dist <= ARRIVE_THRESHOLD) {
+      if (dist <= ARRIVE_THRESHOLD || step >= dist) {
         // Arrived
         this.position.x = this.targetPosition.x;
         this.position.y = this.targetPosition.y;
-        this.walking = false;
-        this.animator.play(this.currentState);
-        this.playLpcState(this.currentState);
+        this.arrive();
       } else {
         // Move towards target
-        const step = WALK_SPEED * dt;
-        if (step >= dist) {
-          this.position.x = this.targetPosition.x;
-          this.position.y = this.targetPosition.y;
-          this.walking = false;
-          this.animator.play(this.currentState);
-          this.playLpcState(this.currentState);
-        } else {
-          this.position.x += (dx / dist) * step;
-          this.position.y += (dy / dist) * step;
-          // Update facing based on movement direction
-          if (dx !== 0) {
-            this.facing = dx > 0 ? 'right' : 'left';
-          }
+        this.position.x += (dx / dist) * step;
+        this.position.y += (dy / dist) * step;
+        // Update facing based on movement direction
+        if (dx !== 0) {
+          this.facing = dx > 0 ? 'right' : 'left';
         }
       }
+    } else if (this.phase === 'arriving' && this.isAnimationFinished()) {
+      this.arrive();
+    }
+
+    if (this.phase === 'performing') {
+      this.dwell += dt;
+      this.advanceQueue();
     }
 
     this.animator.update(dt);
     this.lpcAnimator?.update(dt);
   }
 
+  /** Whether the active animator has played a non-looping animation through */
+  private isAnimationFinished(): boolean {
+    return this.useLpc ? this.lpcAnimator!.isFinished() : this.animator.isFinished();
+  }
+
   /**
    * Draw the character at its current position.
    * Position is the character's feet (bottom-center).
@@ -248,6 +464,12 @@ export class CharacterController {
     const drawX = Math.round(this.position.x - (fs * s) / 2);
     const drawY = Math.round(this.position.y - fs * s + feetOffsetY);
 
+    const sheet = sheetKey.slice(this.lpcSheetPrefix.length);
+    if (this.lpcOutfit?.covers(sheet)) {
+      this.lpcOutfit.drawFrame(ctx, sheet, col, row, drawX, drawY, s);
+      return;
+    }
+
     this.lpcManager.drawFrame(
       ctx,
       sheetKey,
@@ -4,6 +4,7 @@
 // ============================================
 
 import { LpcDirection, type LpcAnimationDef } from '../engine/imageSprite';
+import type { AnimationStateGraph, TransitionClip } from '../engine/stateGraph';
 import type { AnimationState } from '@claudeborne/shared';
 
 // Spritesheet paths (relative to public/)
@@ -19,6 +20,9 @@ export const HUNTER_SHEETS: Record<string, string> = {
   emote: '/sprites/hunter/emote.png',
 };
 
+// Layered outfit (body, armor, helm, cape, weapon) — see engine/lpcOutfit.ts
+export const HUNTER_OUTFIT = '/sprites/hunter/outfit.json';
+
 export const HUNTER_FRAME_SIZE = 64;
 
 // Map our AnimationState to LPC animation definitions
@@ -56,7 +60,7 @@ export const HUNTER_ANIMATIONS: Record<AnimationState, LpcAnimationDef> = {
     loop: true,
   },
   forge: {
-    sheet: '1h_slash',
+    sheet: 'slash', // the outfit's saw cleaver swings with this sheet
     direction: LpcDirection.Down,
     startFrame: 0,
     frameCount: 6,
@@ -95,6 +99,70 @@ export const HUNTER_ANIMATIONS: Record<AnimationState, LpcAnimationDef> = {
     frameDuration: 1.0,
     loop: true,
   },
+  dormant: {
+    sheet: 'hurt',
+    direction: LpcDirection.Up, // hurt only has 1 row
+    startFrame: 5, // last frame of hurt = lying on the ground
+    frameCount: 1,
+    frameDuration: 1.0,
+    loop: true,
+  },
+  awaiting: {
+    sheet: 'idle',
+    direction: LpcDirection.Down, // face the camera
+    startFrame: 0,
+    frameCount: 2,
+    frameDuration: 0.9,
+    loop: true,
+  },
+  duel: {
+    sheet: 'combat',
+    direction: LpcDirection.Down,
+    startFrame: 0,
+    frameCount: 2,
+    frameDuration: 0.25, // guard up, facing the boss
+    loop: true,
+  },
+  smith: {
+    sheet: 'slash',
+    direction: LpcDirection.Down,
+    startFrame: 0,
+    frameCount: 6,
+    frameDuration: 0.15, // hammer blows
+    loop: true,
+  },
+  seal: {
+    sheet: 'spellcast',
+    direction: LpcDirection.Down,
+    startFrame: 0,
+    frameCount: 7,
+    frameDuration: 0.12, // hands to the fire
+    loop: false,
+  },
+  dispatch: {
+    sheet: 'spellcast',
+    direction: LpcDirection.Up,
+    startFrame: 0,
+    frameCount: 7,
+    frameDuration: 0.12, // casting out into the world
+    loop: false,
+  },
+  gather: {
+    sheet: 'sit',
+    direction: LpcDirection.Down,
+    startFrame: 0,
+    frameCount: 2,
+    frameDuration: 0.5, // crouching to pick things up
+    loop: true,
+  },
+  trap: {
+    sheet: 'hurt',
+    direction: LpcDirection.Up,
+    startFrame: 0,
+    frameCount: 3,
+    frameDuration: 0.12, // recoil — hurt only has 1 row
+    loop: false,
+  },
   enter: {
     sheet: 'walk',
     direction: LpcDirection.Right,
@@ -111,4 +179,144 @@ export const HUNTER_ANIMATIONS: Record<AnimationState, LpcAnimationDef> = {
     frameDuration: 0.1,
     loop: true,
   },
+  embark: {
+    sheet: 'combat',
+    direction: LpcDirection.Down,
+    startFrame: 0,
+    frameCount: 2,
+    frameDuration: 0.3, // weapon drawn, ready to set out
+    loop: true,
+  },
+  dismiss: {
+    sheet: 'emote',
+    direction: LpcDirection.Down,
+    startFrame: 0,
+    frameCount: 3,
+    frameDuration: 0.25, // farewell gesture to the departing summon
+    loop: false,
+  },
+  kindle: {
+    sheet: 'sit',
+    direction: LpcDirection.Down,
+    startFrame: 2, // seated by the fire — the sit_down clip gets it there
+    frameCount: 1,
+    frameDuration: 1.0,
+    loop: true,
+  },
+  scout: {
+    sheet: 'spellcast',
+    direction: LpcDirection.Right,
+    startFrame: 0,
+    frameCount: 4,
+    frameDuration: 0.2, // raises a hand toward the horizon
+    loop: true,
+  },
+  survey: {
+    sheet: 'walk',
+    direction: LpcDirection.Up,
+    startFrame: 0,
+    frameCount: 9,
+    frameDuration: 0.15, // paces the road ahead
+    loop: true,
+  },
+  summon: {
+    sheet: 'spellcast',
+    direction: LpcDirection.Left,
+    startFrame: 0,
+    frameCount: 7,
+    frameDuration: 0.12, // rings the beckoning bell
+    loop: false,
+  },
+  channel: {
+    sheet: 'spellcast',
+    direction: LpcDirection.Down,
+    startFrame: 2,
+    frameCount: 3,
+    frameDuration: 0.2, // holds the cast while the power flows
+    loop: true,
+  },
+};
+
+// Clips played between states — see HUNTER_STATE_GRAPH
+export const HUNTER_TRANSITION_CLIPS: Record<TransitionClip, LpcAnimationDef> = {
+  sit_down: {
+    sheet: 'sit',
+    direction: LpcDirection.Down,
+    startFrame: 0,
+    frameCount: 3,
+    frameDuration: 0.15,
+    loop: false,
+  },
+  stand_up: {
+    sheet: 'sit',
+    direction: LpcDirection.Down,
+    startFrame: 0,
+    frameCount: 3,
+    frameDuration: 0.15,
+    loop: false,
+    reverse: true,
+  },
+  lie_down: {
+    sheet: 'hurt',
+    direction: LpcDirection.Up,
+    startFrame: 0,
+    frameCount: 6,
+    frameDuration: 0.15, // hurt only has 1 row
+    loop: false,
+  },
+  get_up: {
+    sheet: 'hurt',
+    direction: LpcDirection.Up,
+    startFrame: 0,
+    frameCount: 6,
+    frameDuration: 0.12,
+    loop: false,
+    reverse: true,
+  },
+  draw: {
+    sheet: '1h_slash',
+    direction: LpcDirection.Down,
+    startFrame: 0,
+    frameCount: 4,
+    frameDuration: 0.08, // raising the weapon
+    loop: false,
+  },
+  sheathe: {
+    sheet: '1h_slash',
+    direction: LpcDirection.Down,
+    startFrame: 0,
+    frameCount: 4,
+    frameDuration: 0.08,
+    loop: false,
+    reverse: true,
+  },
+};
+
+/**
+ * How the hunter moves between states: sitting down to rest, lying down
+ * when dormant, drawing the saw cleaver to fight or forge, and which moments
+ * play through before anything else may start.
+ */
+export const HUNTER_STATE_GRAPH: AnimationStateGraph = {
+  stances: {
+    seated: { enter: 'sit_down', exit: 'stand_up' },
+    lying: { enter: 'lie_down', exit: 'get_up' },
+    armed: { enter: 'draw', exit: 'sheathe' },
+  },
+  states: {
+    rest: { stance: 'seated' },
+    kindle: { stance: 'seated' },
+    dormant: { stance: 'lying' },
+    forge: { stance: 'armed' },
+    duel: { stance: 'armed' },
+    smith: { stance: 'armed' },
+    embark: { stance: 'armed' },
+    stagger: { interruptible: false, returnTo: 'idle' },
+    trap: { interruptible: false, returnTo: 'idle' },
+    victory: { interruptible: false, returnTo: 'idle' },
+    summon: { interruptible: false },
+    seal: { returnTo: 'idle' },
+    dispatch: { returnTo: 'idle' },
+    dismiss: { returnTo: 'idle' },
+  },
 };
@@ -4,6 +4,7 @@
 
 import { createSprite } from '../engine/spriteUtils';
 import type { SpriteSheet, AnimationDef } from '../engine/types';
+import type { TransitionClip } from '../engine/stateGraph';
 
 const P: Record<string, string> = {
   'H': '#1a1015',  // hat - very dark
@@ -972,6 +973,46 @@ export const hunterAnimations: Record<string, AnimationDef> = {
     frameDuration: 1.2,
     loop: true,
   },
+  dormant: {
+    frames: ['rest_1'],
+    frameDuration: 2.0,
+    loop: true,
+  },
+  awaiting: {
+    frames: ['idle_0', 'idle_1'],
+    frameDuration: 0.9,
+    loop: true,
+  },
+  duel: {
+    frames: ['forge_0', 'forge_1'],
+    frameDuration: 0.3,
+    loop: true,
+  },
+  smith: {
+    frames: ['forge_0', 'forge_1', 'forge_2'],
+    frameDuration: 0.15,
+    loop: true,
+  },
+  seal: {
+    frames: ['rest_0'],
+    frameDuration: 0.5,
+    loop: false,
+  },
+  dispatch: {
+    frames: ['victory_0', 'victory_1'],
+    frameDuration: 0.3,
+    loop: false,
+  },
+  gather: {
+    frames: ['rest_0', 'idle_0'],
+    frameDuration: 0.5,
+    loop: true,
+  },
+  trap: {
+    frames: ['stagger_0', 'stagger_1'],
+    frameDuration: 0.15,
+    loop: false,
+  },
   enter: {
     frames: ['walk_0', 'walk_1', 'walk_2', 'walk_3'],
     frameDuration: 0.15,
@@ -982,4 +1023,73 @@ export const hunterAnimations: Record<string, AnimationDef> = {
     frameDuration: 0.4,
     loop: true,
   },
+  embark: {
+    frames: ['forge_0', 'idle_0'],
+    frameDuration: 0.4,
+    loop: true,
+  },
+  dismiss: {
+    frames: ['victory_0', 'idle_1'],
+    frameDuration: 0.35,
+    loop: false,
+  },
+  kindle: {
+    frames: ['rest_0', 'rest_1'],
+    frameDuration: 1.2,
+    loop: true,
+  },
+  scout: {
+    frames: ['read_0', 'idle_0'],
+    frameDuration: 0.5,
+    loop: true,
+  },
+  survey: {
+    frames: ['read_0', 'read_1', 'idle_1'],
+    frameDuration: 0.45,
+    loop: true,
+  },
+  summon: {
+    frames: ['inscribe_0', 'inscribe_1', 'inscribe_2'],
+    frameDuration: 0.2,
+    loop: false,
+  },
+  channel: {
+    frames: ['meditate_0', 'inscribe_1'],
+    frameDuration: 0.3,
+    loop: true,
+  },
+};
+
+// Clips played between states (see the state graph in hunterLpc.ts)
+export const hunterTransitionClips: Record<TransitionClip, AnimationDef> = {
+  sit_down: {
+    frames: ['idle_0', 'rest_0', 'rest_1'],
+    frameDuration: 0.2,
+    loop: false,
+  },
+  stand_up: {
+    frames: ['rest_1', 'rest_0', 'idle_0'],
+    frameDuration: 0.2,
+    loop: false,
+  },
+  lie_down: {
+    frames: ['stagger_0', 'stagger_1', 'rest_1'],
+    frameDuration: 0.2,
+    loop: false,
+  },
+  get_up: {
+    frames: ['rest_1', 'stagger_1', 'idle_0'],
+    frameDuration: 0.2,
+    loop: false,
+  },
+  draw: {
+    frames: ['idle_0', 'forge_0'],
+    frameDuration: 0.15,
+    loop: false,
+  },
+  sheathe: {
+    frames: ['forge_0', 'idle_0'],
+    frameDuration: 0.15,
+    loop: false,
+  },
 };
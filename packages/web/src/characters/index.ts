@@ -2,27 +2,33 @@
 // Character asset registry
 // ============================================
 
-import { hunterSpriteSheet, hunterAnimations } from './hunterSprites';
-import { knightSpriteSheet, knightAnimations } from './knightSprites';
+import { hunterSpriteSheet, hunterAnimations, hunterTransitionClips } from './hunterSprites';
+import { knightSpriteSheet, knightAnimations, knightTransitionClips } from './knightSprites';
 import type { SpriteSheet, AnimationDef } from '../engine/types';
+import type { AnimationStateGraph } from '../engine/stateGraph';
 import type { CharacterType } from '@claudeborne/shared';
 import { ImageSpriteManager } from '../engine/imageSprite';
-import { HUNTER_SHEETS } from './hunterLpc';
-import { KNIGHT_SHEETS } from './knightLpc';
+import { LpcOutfit } from '../engine/lpcOutfit';
+import { HUNTER_OUTFIT, HUNTER_SHEETS, HUNTER_STATE_GRAPH } from './hunterLpc';
+import { KNIGHT_OUTFIT, KNIGHT_SHEETS, KNIGHT_STATE_GRAPH } from './knightLpc';
 
 export interface CharacterAssets {
   spriteSheet: SpriteSheet;
+  /** State animations and transition clips, by name */
   animations: Record<string, AnimationDef>;
+  stateGraph: AnimationStateGraph;
 }
 
 const characterRegistry: Record<CharacterType, CharacterAssets> = {
   hunter: {
     spriteSheet: hunterSpriteSheet,
-    animations: hunterAnimations,
+    animations: { ...hunterAnimations, ...hunterTransitionClips },
+    stateGraph: HUNTER_STATE_GRAPH,
   },
   knight: {
     spriteSheet: knightSpriteSheet,
-    animations: knightAnimations,
+    animations: { ...knightAnimations, ...knightTransitionClips },
+    stateGraph: KNIGHT_STATE_GRAPH,
   },
 };
 
@@ -30,12 +36,19 @@ export function getCharacterAssets(type: CharacterType): CharacterAssets {
   return characterRegistry[type];
 }
 
+const outfitManifests: Record<CharacterType, string> = {
+  hunter: HUNTER_OUTFIT,
+  knight: KNIGHT_OUTFIT,
+};
+
 /**
- * Register and load all LPC spritesheets for characters.
- * Hunter sheets are loaded immediately; knight sheets will be
- * registered here once available.
+ * Register and load all LPC spritesheets for characters, along with
+ * each character's layered outfit. A character whose outfit fails to
+ * load keeps its flattened sheets.
  */
-export async function loadCharacterSprites(manager: ImageSpriteManager): Promise<void> {
+export async function loadCharacterSprites(
+  manager: ImageSpriteManager,
+): Promise<Partial<Record<CharacterType, LpcOutfit>>> {
   // Register hunter sheets
   for (const [key, src] of Object.entries(HUNTER_SHEETS)) {
     manager.register(`hunter_${key}`, src);
@@ -45,5 +58,15 @@ export async function loadCharacterSprites(manager: ImageSpriteManager): Promise
     manager.register(`knight_${key}`, src);
   }
 
-  await manager.loadAll();
+  const outfits: Partial<Record<CharacterType, LpcOutfit>> = {};
+  const loadOutfits = (Object.keys(outfitManifests) as CharacterType[]).map(async (type) => {
+    try {
+      outfits[type] = await LpcOutfit.load(outfitManifests[type]);
+    } catch (err) {
+      console.warn(`Failed to load ${type} outfit, using flat sheets:`, err);
+    }
+  });
+
+  await Promise.all([manager.loadAll(), ...loadOutfits]);
+  return outfits;
 }
@@ -1,5 +1,7 @@
 import { useRef, useEffect } from 'react';
-import { useGameStore } from '../stores/gameStore';
+import { getSessionLabel } from '@claudeborne/shared';
+import { useGameStore, type ConnectionStatus, type SessionView } from '../stores/gameStore';
+import { sceneBus } from '../stores/sceneBus';
 import { Camera, WORLD_WIDTH, WORLD_HEIGHT } from '../engine/camera';
 import { GameLoop } from '../engine/gameLoop';
 import { setPixelated } from '../engine/renderer';
@@ -20,10 +22,27 @@ export function GameCanvas() {
 
     // Scene state tracked imperatively (not via React deps)
     let currentSceneId: string | null = null;
-    let currentAnimState = 'idle';
+    let currentAreaName: string | null = null;
     let sceneManager: SceneManager | null = null;
     let waitingFrame = 0;
 
+    // Everything the scene should react to since the last frame, in order
+    let pending: Array<(scene: SceneManager) => void> = [];
+    const unsubscribe = [
+      sceneBus.on('event', ({ event, sessionId, animation, view }) => {
+        pending.push((scene) => scene.handleEvent(event, animation, sessionId, view?.openCalls));
+      }),
+      sceneBus.on('idle', ({ view }) => {
+        pending.push((scene) => scene.handleAnimationState(view.animationState, view.id));
+      }),
+      sceneBus.on('snapshot', ({ sessions, lastEvent }) => {
+        pending.push((scene) => {
+          syncSessions(scene, sessions);
+          scene.lastEventType = lastEvent?.type ?? '';
+        });
+      }),
+    ];
+
     // --- Resize handler ---
     function resize() {
       canvas!.width = window.innerWidth;
@@ -38,30 +57,35 @@ export function GameCanvas() {
     const update = (dt: number) => {
       waitingFrame++;
 
-      // Read latest state directly from the store (no React re-render needed)
-      const { sceneId, animationState, connected, lastEvent } = useGameStore.getState();
+      // Read the scene straight from the store (no React re-render needed)
+      const { sceneId, areaName } = useGameStore.getState();
 
-      // Detect scene changes
-      if (sceneId !== currentSceneId) {
+      // Detect scene changes — a new project in the same scene gets its own title card
+      if (sceneId !== currentSceneId || areaName !== currentAreaName) {
         currentSceneId = sceneId;
+        currentAreaName = areaName;
         sceneManager?.destroy();
         if (sceneId) {
-          sceneManager = new SceneManager(sceneId);
+          // A new scene starts from where the store stands, which already
+          // includes anything still queued
+          const { sessions, lastEvent } = useGameStore.getState();
+          sceneManager = new SceneManager(sceneId, areaName);
           sceneManager.init();
+          syncSessions(sceneManager, sessions);
+          sceneManager.lastEventType = lastEvent?.type ?? '';
         } else {
           sceneManager = null;
         }
+        pending = [];
       }
 
-      // Detect animation state changes
-      if (animationState !== currentAnimState) {
-        currentAnimState = animationState;
-        sceneManager?.handleAnimationState(animationState);
-      }
-
-      // Pass last event info for UI display
-      if (sceneManager && lastEvent) {
-        sceneManager.lastEventType = lastEvent.type;
+      // React to every event since the last frame, in order
+      if (sceneManager) {
+        const queued = pending;
+        pending = [];
+        for (const react of queued) react(sceneManager);
+      } else {
+        pending = [];
       }
 
       // Update scene manager
@@ -72,14 +96,16 @@ export function GameCanvas() {
     const render = (_dt: number) => {
       const w = canvas!.width;
       const h = canvas!.height;
-      const { connected } = useGameStore.getState();
+      const { connection, protocolError } = useGameStore.getState();
 
       // Clear entire canvas
       ctx.setTransform(1, 0, 0, 1, 0, 0);
       ctx.fillStyle = '#0a0a0a';
       ctx.fillRect(0, 0, w, h);
 
-      if (!sceneManager) {
+      if (protocolError) {
+        drawProtocolError(ctx, w, h, protocolError);
+      } else if (!sceneManager) {
         drawWaiting(ctx, w, h, waitingFrame);
       } else {
         sceneManager.draw(ctx, camera);
@@ -87,7 +113,7 @@ export function GameCanvas() {
 
       // Connection indicator (always in screen space)
       ctx.setTransform(1, 0, 0, 1, 0, 0);
-      drawConnectionStatus(ctx, w, h, connected);
+      drawConnectionStatus(ctx, w, h, connection, waitingFrame);
     };
 
     gameLoop.onUpdate(update);
@@ -97,6 +123,7 @@ export function GameCanvas() {
     return () => {
       gameLoop.stop();
       sceneManager?.destroy();
+      for (const off of unsubscribe) off();
       window.removeEventListener('resize', resize);
     };
   }, []); // Empty deps — runs once on mount, reads store imperatively
@@ -132,6 +159,30 @@ export function GameCanvas() {
   return <canvas ref={canvasRef} onClick={handleCanvasClick} style={{ cursor: 'pointer' }} />;
 }
 
+/**
+ * Bring a scene in line with the store's sessions without replaying how
+ * they got there: newcomers walk in, missing sessions walk off, and
+ * characters doing something else switch to what their session shows.
+ */
+function syncSessions(scene: SceneManager, sessions: Record<string, SessionView>) {
+  for (const id of scene.characters.keys()) {
+    if (!sessions[id]) scene.handleAnimationState('exit', id);
+  }
+  for (const view of Object.values(sessions)) {
+    const character = scene.characters.get(view.id);
+    scene.addCharacter(view.id, getSessionLabel({ id: view.id, cwd: view.cwd }));
+    scene.setOpenCalls(view.id, view.openCalls);
+    if (!character) {
+      // Newcomers start off-stage, and an idle one would never leave it
+      scene.enterSession(view.id);
+      if (view.animationState === 'idle' || view.animationState === 'enter') continue;
+    } else if (character.latestState === view.animationState) {
+      continue;
+    }
+    scene.handleAnimationState(view.animationState, view.id, view.severity);
+  }
+}
+
 // ============================================
 // Waiting screen (no scene set yet)
 // ============================================
@@ -157,20 +208,72 @@ function drawWaiting(ctx: CanvasRenderingContext2D, w: number, h: number, frame:
   drawVignette(ctx, w, h, 0.5);
 }
 
+// ============================================
+// Version mismatch screen (server and page can't talk)
+// ============================================
+
+function drawProtocolError(ctx: CanvasRenderingContext2D, w: number, h: number, message: string) {
+  ctx.fillStyle = '#1a1420';
+  ctx.fillRect(0, 0, w, h);
+
+  ctx.fillStyle = '#8b0000';
+  ctx.font = '24px monospace';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText('Version mismatch', w / 2, h / 2 - 40);
+
+  // Wrap the explanation to fit the screen
+  ctx.font = '14px monospace';
+  ctx.fillStyle = '#888';
+  const maxWidth = Math.min(w - 40, 640);
+  const lines: string[] = [];
+  let line = '';
+  for (const word of message.split(' ')) {
+    const next = line ? `${line} ${word}` : word;
+    if (line && ctx.measureText(next).width > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = next;
+    }
+  }
+  if (line) lines.push(line);
+  lines.forEach((l, i) => ctx.fillText(l, w / 2, h / 2 + i * 20));
+
+  drawVignette(ctx, w, h, 0.5);
+}
+
 // ============================================
 // Connection status indicator
 // ============================================
 
+const CONNECTION_COLORS: Record<ConnectionStatus, string> = {
+  connecting: '#aa4',
+  live: '#4a4',
+  stale: '#c80',
+  offline: '#a44',
+};
+
 function drawConnectionStatus(
   ctx: CanvasRenderingContext2D,
   w: number,
   _h: number,
-  connected: boolean,
+  connection: ConnectionStatus,
+  frame: number,
 ) {
-  ctx.globalAlpha = 0.7;
-  ctx.fillStyle = connected ? '#4a4' : '#a44';
+  // Connecting pulses; anything but live is spelled out beside the dot
+  ctx.globalAlpha = connection === 'connecting' ? 0.4 + 0.3 * Math.sin(frame * 0.1) : 0.7;
+  ctx.fillStyle = CONNECTION_COLORS[connection];
   ctx.beginPath();
   ctx.arc(w - 20, 20, 5, 0, Math.PI * 2);
   ctx.fill();
+
+  if (connection !== 'live') {
+    ctx.globalAlpha = 0.6;
+    ctx.font = '11px monospace';
+    ctx.textAlign = 'right';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(connection, w - 32, 20);
+  }
   ctx.globalAlpha = 1;
 }
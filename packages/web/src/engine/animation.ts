@@ -5,8 +5,8 @@
 import type { Sprite, SpriteSheet, AnimationDef } from './types';
 
 /**
- * Manages sprite animation playback with frame timing,
- * looping, and animation transitions.
+ * Manages sprite animation playback with frame timing
+ * and looping.
  */
 export class AnimationController {
   private sheet: SpriteSheet;
@@ -16,42 +16,19 @@ export class AnimationController {
   private elapsed: number = 0;
   private finished: boolean = false;
 
-  /** Optional transition animation to play before switching */
-  private pendingAnim: string | null = null;
-  private transitionMap: Record<string, string> = {};
-
   constructor(sheet: SpriteSheet, animations: Record<string, AnimationDef>) {
     this.sheet = sheet;
     this.animations = animations;
   }
 
   /**
-   * Register a transition: when switching from any animation to `targetAnim`,
-   * play `transitionAnim` first.
-   */
-  setTransition(targetAnim: string, transitionAnim: string): void {
-    this.transitionMap[targetAnim] = transitionAnim;
-  }
-
-  /**
-   * Start playing an animation by name. If a transition is registered
-   * for this animation, the transition plays first.
+   * Start playing an animation by name. Asking for the one already
+   * playing changes nothing, unless `restart` is set and it doesn't
+   * loop — then it starts over. Transitions between animations are the
+   * state graph's business (see stateGraph.ts).
    */
-  play(animName: string): void {
-    if (animName === this.currentAnim && !this.finished) return;
-
-    // Check if there's a transition to play first
-    const transition = this.transitionMap[animName];
-    if (transition && transition !== this.currentAnim && this.animations[transition]) {
-      this.pendingAnim = animName;
-      this.switchTo(transition);
-    } else {
-      this.pendingAnim = null;
-      this.switchTo(animName);
-    }
-  }
-
-  private switchTo(animName: string): void {
+  play(animName: string, restart: boolean = false): void {
+    if (animName === this.currentAnim && !this.finished && !(restart && !this.animations[animName]?.loop)) return;
     if (!this.animations[animName]) return;
     this.currentAnim = animName;
     this.currentFrameIndex = 0;
@@ -80,13 +57,6 @@ export class AnimationController {
         } else {
           this.currentFrameIndex = anim.frames.length - 1;
           this.finished = true;
-
-          // If there's a pending animation, switch to it now
-          if (this.pendingAnim) {
-            const next = this.pendingAnim;
-            this.pendingAnim = null;
-            this.switchTo(next);
-          }
           return;
         }
       }
@@ -110,6 +80,11 @@ export class AnimationController {
     return this.currentAnim;
   }
 
+  /** Whether the named animation loops (false for unknown names) */
+  isLooping(animName: string): boolean {
+    return this.animations[animName]?.loop ?? false;
+  }
+
   /** Check if the current animation has finished (non-looping only) */
   isFinished(): boolean {
     return this.finished;
@@ -168,3 +168,46 @@ export function drawScreenFlash(
   ctx.fillRect(0, 0, w, h);
   ctx.globalAlpha = prevAlpha;
 }
+
+/**
+ * Draw a pulsing summon sign — a glowing ring with a rune cross —
+ * centred on (x, y). Used to flag a character waiting on the player.
+ */
+export function drawSummonSign(
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  time: number,
+  color: string = '#ffd700',
+): void {
+  const prevAlpha = ctx.globalAlpha;
+  const pulse = 0.5 + 0.5 * Math.sin(time * 4);
+  const radius = 5 + pulse * 1.5;
+
+  // Soft glow
+  ctx.globalAlpha = 0.15 + 0.2 * pulse;
+  ctx.fillStyle = color;
+  ctx.beginPath();
+  ctx.arc(x, y, radius + 4, 0, Math.PI * 2);
+  ctx.fill();
+
+  // Ring
+  ctx.globalAlpha = 0.6 + 0.4 * pulse;
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  ctx.arc(x, y, radius, 0, Math.PI * 2);
+  ctx.stroke();
+
+  // Rune cross, slowly turning
+  const turn = time * 0.8;
+  ctx.beginPath();
+  for (let i = 0; i < 4; i++) {
+    const a = turn + (i * Math.PI) / 2;
+    ctx.moveTo(x + Math.cos(a) * 2, y + Math.sin(a) * 2);
+    ctx.lineTo(x + Math.cos(a) * (radius - 1), y + Math.sin(a) * (radius - 1));
+  }
+  ctx.stroke();
+
+  ctx.globalAlpha = prevAlpha;
+}
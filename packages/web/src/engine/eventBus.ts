@@ -0,0 +1,30 @@
+// ============================================
+// Typed publish/subscribe
+// ============================================
+
+type Listener<T> = (payload: T) => void;
+
+/**
+ * Synchronous event bus, typed by a map of event names to payloads.
+ * Every emit reaches every listener, in the order they subscribed.
+ */
+export class EventBus<Events> {
+  private listeners: { [K in keyof Events]?: Set<Listener<Events[K]>> } = {};
+
+  /** Subscribe to one event type. Returns the unsubscribe function. */
+  on<K extends keyof Events>(type: K, listener: Listener<Events[K]>): () => void {
+    const set = (this.listeners[type] ??= new Set());
+    set.add(listener);
+    return () => {
+      set.delete(listener);
+    };
+  }
+
+  emit<K extends keyof Events>(type: K, payload: Events[K]): void {
+    const set = this.listeners[type];
+    if (!set) return;
+    for (const listener of [...set]) {
+      listener(payload);
+    }
+  }
+}
@@ -38,6 +38,8 @@ export interface LpcAnimationDef {
   frameDuration: number;
   /** Whether to loop */
   loop: boolean;
+  /** Play the frames last-to-first (e.g. standing up from a sit) */
+  reverse?: boolean;
 }
 
 export class ImageSpriteManager {
@@ -128,8 +130,9 @@ export class LpcAnimator {
     this.animations.set(name, def);
   }
 
-  play(name: string): void {
-    if (name === this.currentAnimName && !this.finished) return;
+  /** Play an animation; `restart` starts a non-looping one over if it is already playing */
+  play(name: string, restart: boolean = false): void {
+    if (name === this.currentAnimName && !this.finished && !(restart && !this.currentAnim?.loop)) return;
     const anim = this.animations.get(name);
     if (!anim) return;
     this.currentAnim = anim;
@@ -165,7 +168,8 @@ export class LpcAnimator {
 
   getCurrentColumn(): number {
     if (!this.currentAnim) return 0;
-    return this.currentAnim.startFrame + this.currentFrame;
+    const { startFrame, frameCount, reverse } = this.currentAnim;
+    return startFrame + (reverse ? frameCount - 1 - this.currentFrame : this.currentFrame);
   }
 
   getCurrentRow(): number {
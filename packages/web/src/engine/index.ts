@@ -11,3 +11,6 @@ export * from './effects';
 export * from './spriteUtils';
 export * from './gameLoop';
 export * from './imageSprite';
+export * from './eventBus';
+export * from './stateGraph';
+export * from './lpcOutfit';
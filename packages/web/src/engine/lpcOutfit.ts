@@ -0,0 +1,230 @@
+// ============================================
+// Layered LPC characters — body, armor, helm,
+// cape and weapon composited frame by frame
+// from a per-character outfit manifest.
+// ============================================
+
+import { ImageSpriteManager, LpcDirection } from './imageSprite';
+
+export type OutfitSlot = 'body' | 'armor' | 'helm' | 'cape' | 'weapon';
+
+/** Direction names as written in a manifest */
+type DirectionName = 'up' | 'left' | 'down' | 'right';
+
+const DIRECTION_NAMES: Record<LpcDirection, DirectionName> = {
+  [LpcDirection.Up]: 'up',
+  [LpcDirection.Left]: 'left',
+  [LpcDirection.Down]: 'down',
+  [LpcDirection.Right]: 'right',
+};
+
+/**
+ * Where each animation starts in an LPC generator "universal" item sheet.
+ * Most animations take one row per direction; `hurt` and `climb` have a
+ * single row, drawn facing the given way.
+ */
+const UNIVERSAL_LAYOUT: Record<string, { row: number; facing?: LpcDirection }> = {
+  spellcast: { row: 0 },
+  thrust: { row: 4 },
+  walk: { row: 8 },
+  slash: { row: 12 },
+  shoot: { row: 16 },
+  hurt: { row: 20, facing: LpcDirection.Down },
+  climb: { row: 21, facing: LpcDirection.Up },
+  idle: { row: 22 },
+  jump: { row: 26 },
+  sit: { row: 30 },
+  emote: { row: 34 },
+  run: { row: 38 },
+  combat: { row: 42 },
+  '1h_slash': { row: 46 },
+  '1h_halfslash': { row: 50 },
+};
+
+/** One animation's sheet for a layer, laid out like the flat sheets */
+export interface LayerSheet {
+  /** Path relative to the manifest */
+  src: string;
+  /** Frame size in pixels — oversized weapon sheets use 128 or 192 (default: the outfit's) */
+  frameSize?: number;
+}
+
+export interface OutfitLayer {
+  slot: OutfitSlot;
+  /** What the layer is, for whoever edits the manifest */
+  name?: string;
+  /** Universal item sheet (every standard animation), relative to the manifest */
+  src?: string;
+  /** Per-animation sheets, taking precedence over `src` */
+  sheets?: Record<string, LayerSheet>;
+  /**
+   * Draw order, lowest first. A weapon held in front while facing the
+   * viewer goes behind the body facing away, so it may vary by direction:
+   * `{ "default": 140, "up": 9 }`.
+   */
+  z: number | ({ default: number } & Partial<Record<DirectionName, number>>);
+  /** CSS colour multiplied into the layer (e.g. "#8a2020" for a red cape) */
+  tint?: string;
+}
+
+export interface OutfitManifest {
+  /** Frame size of the body sheets in pixels */
+  frameSize: number;
+  layers: OutfitLayer[];
+}
+
+/** Check a fetched manifest's shape. Throws on anything malformed. */
+export function parseOutfitManifest(data: unknown): OutfitManifest {
+  const manifest = data as Partial<OutfitManifest> | null;
+  if (typeof manifest?.frameSize !== 'number' || !Array.isArray(manifest.layers)) {
+    throw new Error('outfit manifest needs a frameSize and a layers array');
+  }
+  manifest.layers.forEach((layer, i) => {
+    const z = typeof layer?.z === 'number' ? layer.z : layer?.z?.default;
+    if (typeof z !== 'number' || (!layer.src && !layer.sheets)) {
+      throw new Error(`outfit layer ${i} needs a z and a src or sheets`);
+    }
+  });
+  return manifest as OutfitManifest;
+}
+
+/** A layer's images once loaded (and tinted) */
+interface LoadedLayer {
+  layer: OutfitLayer;
+  universal?: CanvasImageSource;
+  sheets: Map<string, { image: CanvasImageSource; frameSize: number }>;
+}
+
+/**
+ * A character drawn as a stack of LPC layers. Once loaded, it draws any
+ * frame the body layer covers in place of the flattened sheet.
+ */
+export class LpcOutfit {
+  /** Layer images, kept apart so a missing one only costs the outfit */
+  private manager = new ImageSpriteManager();
+  private loaded: LoadedLayer[] = [];
+
+  /** @param baseUrl directory the manifest's paths are relative to */
+  constructor(
+    private manifest: OutfitManifest,
+    private baseUrl: string,
+  ) {}
+
+  /** Fetch a manifest and every image it names. Rejects if any fail to load. */
+  static async load(manifestUrl: string): Promise<LpcOutfit> {
+    const res = await fetch(manifestUrl);
+    if (!res.ok) throw new Error(`${manifestUrl}: ${res.status}`);
+    const outfit = new LpcOutfit(parseOutfitManifest(await res.json()), manifestUrl.replace(/[^/]*$/, ''));
+    await outfit.loadImages();
+    return outfit;
+  }
+
+  /** Load every layer image, tinting where the manifest asks */
+  private async loadImages(): Promise<void> {
+    const manager = this.manager;
+    this.manifest.layers.forEach((layer, i) => {
+      if (layer.src) manager.register(this.keyOf(i), this.urlOf(layer.src));
+      for (const [sheet, { src }] of Object.entries(layer.sheets ?? {})) {
+        manager.register(this.keyOf(i, sheet), this.urlOf(src));
+      }
+    });
+    await manager.loadAll();
+
+    this.loaded = this.manifest.layers.map((layer, i) => {
+      const image = (key: string): CanvasImageSource | undefined => {
+        const img = manager.getSheet(key);
+        return img && layer.tint ? tintImage(img, layer.tint) : img;
+      };
+      const sheets: LoadedLayer['sheets'] = new Map();
+      for (const [sheet, def] of Object.entries(layer.sheets ?? {})) {
+        const img = image(this.keyOf(i, sheet));
+        if (img) sheets.set(sheet, { image: img, frameSize: def.frameSize ?? this.manifest.frameSize });
+      }
+      return { layer, universal: layer.src ? image(this.keyOf(i)) : undefined, sheets };
+    });
+  }
+
+  /** Whether the body can be drawn for an animation sheet — otherwise use the flat one */
+  covers(sheet: string): boolean {
+    return this.loaded.some(
+      ({ layer, universal, sheets }) =>
+        layer.slot === 'body' && (sheets.has(sheet) || (!!universal && sheet in UNIVERSAL_LAYOUT)),
+    );
+  }
+
+  /**
+   * Draw one frame of every layer, in the order for the direction the
+   * frame faces. `row` is the row within the flat sheet, as for
+   * ImageSpriteManager.drawFrame; oversized layers are centred on the frame.
+   */
+  drawFrame(
+    ctx: CanvasRenderingContext2D,
+    sheet: string,
+    column: number,
+    row: number,
+    destX: number,
+    destY: number,
+    scale: number,
+  ): void {
+    const layout = UNIVERSAL_LAYOUT[sheet];
+    const facing = DIRECTION_NAMES[(layout?.facing ?? row) as LpcDirection] ?? 'down';
+    const ordered = [...this.loaded].sort((a, b) => zOf(a.layer, facing) - zOf(b.layer, facing));
+    const base = this.manifest.frameSize;
+
+    for (const { sheets, universal } of ordered) {
+      const own = sheets.get(sheet);
+      let image: CanvasImageSource;
+      let size = base;
+      let sourceRow = row;
+      if (own) {
+        image = own.image;
+        size = own.frameSize;
+      } else if (universal && layout) {
+        image = universal;
+        sourceRow = layout.row + (layout.facing === undefined ? row : 0);
+      } else {
+        continue;
+      }
+
+      const inset = ((size - base) / 2) * scale;
+      ctx.drawImage(
+        image,
+        column * size,
+        sourceRow * size,
+        size,
+        size,
+        destX - inset,
+        destY - inset,
+        size * scale,
+        size * scale,
+      );
+    }
+  }
+
+  private keyOf(layer: number, sheet?: string): string {
+    return sheet ? `${layer}_${sheet}` : `${layer}`;
+  }
+
+  private urlOf(src: string): string {
+    return `${this.baseUrl.replace(/\/$/, '')}/${src}`;
+  }
+}
+
+function zOf(layer: OutfitLayer, facing: DirectionName): number {
+  return typeof layer.z === 'number' ? layer.z : (layer.z[facing] ?? layer.z.default);
+}
+
+/** Multiply a colour into an image, keeping its shading and transparency */
+function tintImage(img: HTMLImageElement, color: string): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = img.width;
+  canvas.height = img.height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(img, 0, 0);
+  ctx.globalCompositeOperation = 'multiply';
+  ctx.fillStyle = color;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.globalCompositeOperation = 'destination-in';
+  ctx.drawImage(img, 0, 0);
+  return canvas;
+}
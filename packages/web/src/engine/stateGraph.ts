@@ -0,0 +1,74 @@
+// ============================================
+// Animation state graph — how a character gets
+// from one state to the next
+// ============================================
+
+import type { AnimationState } from '@claudeborne/shared';
+
+/**
+ * Short clips played between states, never states themselves. Every
+ * character defines each one for both its programmatic and LPC sprites.
+ */
+export type TransitionClip = 'sit_down' | 'stand_up' | 'lie_down' | 'get_up' | 'draw' | 'sheathe';
+
+/** Stance every state is in unless its node says otherwise */
+export const DEFAULT_STANCE = 'standing';
+
+/** How a character takes up a stance, and how it leaves it */
+export interface StanceDef {
+  /** Played on arrival, before the first state in this stance */
+  enter?: TransitionClip;
+  /** Played where the character stands, before moving to another stance */
+  exit?: TransitionClip;
+}
+
+export interface StateNode {
+  /** Posture the state is performed in (default: standing) */
+  stance?: string;
+  /**
+   * Whether a newer state may cut the animation short (default: true).
+   * Only meaningful for non-looping animations — the next state waits
+   * for the last frame.
+   */
+  interruptible?: boolean;
+  /** For non-looping animations: the state to settle into once played through */
+  returnTo?: AnimationState;
+}
+
+/**
+ * Stances group states that share a posture. Moving between states in
+ * the same stance is a straight cut; changing stance plays the old
+ * stance's exit clip, then the new one's enter clip.
+ */
+export interface AnimationStateGraph {
+  stances: Record<string, StanceDef>;
+  states: Partial<Record<AnimationState, StateNode>>;
+}
+
+/** The stance a state is performed in */
+export function stanceOf(graph: AnimationStateGraph, state: AnimationState): string {
+  return graph.states[state]?.stance ?? DEFAULT_STANCE;
+}
+
+/** The clips to play going from one state to another, if any */
+export function transitionBetween(
+  graph: AnimationStateGraph,
+  from: AnimationState,
+  to: AnimationState,
+): StanceDef {
+  const fromStance = stanceOf(graph, from);
+  const toStance = stanceOf(graph, to);
+  if (fromStance === toStance) return {};
+  return {
+    exit: graph.stances[fromStance]?.exit,
+    enter: graph.stances[toStance]?.enter,
+  };
+}
+
+export function isInterruptible(graph: AnimationStateGraph, state: AnimationState): boolean {
+  return graph.states[state]?.interruptible ?? true;
+}
+
+export function returnStateOf(graph: AnimationStateGraph, state: AnimationState): AnimationState | null {
+  return graph.states[state]?.returnTo ?? null;
+}
@@ -0,0 +1,17 @@
+import { useEffect } from 'react';
+import { useGameStore } from '../stores/gameStore';
+
+const SWEEP_INTERVAL = 1000;
+
+/**
+ * Periodically let quiet sessions' characters sit down to rest,
+ * then fall dormant. The next event for a session wakes it.
+ */
+export function useIdleTimer() {
+  const sweepIdle = useGameStore((s) => s.sweepIdle);
+
+  useEffect(() => {
+    const timer = setInterval(() => sweepIdle(Date.now()), SWEEP_INTERVAL);
+    return () => clearInterval(timer);
+  }, [sweepIdle]);
+}
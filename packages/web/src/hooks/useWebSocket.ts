@@ -1,5 +1,16 @@
-import { useEffect, useRef } from 'react';
-import { WS_PORT, type WsMessage, type ClaudeEvent, type SceneId } from '@claudeborne/shared';
+import { useEffect } from 'react';
+import {
+  WS_PORT,
+  PROTOCOL_VERSION,
+  WS_CLOSE_INCOMPATIBLE,
+  describeProtocolMismatch,
+  getSessionId,
+  getSessionLabel,
+  parseServerMessage,
+  type ClaudeEvent,
+  type ClientMessage,
+  type ServerMessage,
+} from '@claudeborne/shared';
 import { useGameStore } from '../stores/gameStore';
 
 // In production, connect WS to the same host that served the page.
@@ -7,59 +18,179 @@ import { useGameStore } from '../stores/gameStore';
 const WS_URL = import.meta.env.DEV
   ? `ws://localhost:${WS_PORT}`
   : `ws://${window.location.host}`;
-const RECONNECT_INTERVAL = 2000;
 
-export function useWebSocket() {
-  const wsRef = useRef<WebSocket | null>(null);
-  const reconnectTimer = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+// Reconnect delays grow from 1 s to 30 s, each jittered so a restarted
+// server isn't hit by every open tab at the same instant
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30_000;
+
+// The server pings every 10 s. Any message counts as a sign of life;
+// after one missed ping the link is stale, after three it is dead.
+const STALE_AFTER_MS = 15_000;
+const DEAD_AFTER_MS = 35_000;
+const SILENCE_CHECK_MS = 1000;
+
+/** Full backoff for the given attempt, scaled by a random 50–100% */
+function reconnectDelay(attempt: number): number {
+  const backoff = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** attempt);
+  return backoff * (0.5 + Math.random() * 0.5);
+}
+
+// Desktop notifications when Claude is waiting on the user while this
+// tab is in the background. Opt in with `?notify` in the page URL.
+const NOTIFY_ENABLED =
+  'Notification' in window && new URLSearchParams(window.location.search).has('notify');
+
+function notifyAwaitingInput(event: ClaudeEvent) {
+  if (!NOTIFY_ENABLED || !document.hidden || Notification.permission !== 'granted') return;
+  const who = event.session ? getSessionLabel(event.session) : 'Claude';
+  new Notification(`${who} is waiting for you`, {
+    body: event.message ?? 'Claude is waiting for your input',
+    // One notification per session — a newer one replaces the last
+    tag: `claudeborne-${getSessionId(event)}`,
+  });
+}
 
-  const setConnected = useGameStore((s) => s.setConnected);
+export function useWebSocket() {
+  const setConnection = useGameStore((s) => s.setConnection);
+  const setSend = useGameStore((s) => s.setSend);
   const setSceneId = useGameStore((s) => s.setSceneId);
   const pushEvent = useGameStore((s) => s.pushEvent);
+  const applySnapshot = useGameStore((s) => s.applySnapshot);
+  const setProtocolError = useGameStore((s) => s.setProtocolError);
 
   useEffect(() => {
+    if (NOTIFY_ENABLED && Notification.permission === 'default') {
+      Notification.requestPermission().catch(() => {
+        // Blocked or unsupported — notifications just stay off
+      });
+    }
+
+    let ws: WebSocket | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    /** Failed attempts since the last successful welcome */
+    let attempt = 0;
+    let lastMessageAt = 0;
+    let disposed = false;
+
     function connect() {
-      if (wsRef.current?.readyState === WebSocket.OPEN) return;
+      setConnection('connecting');
+      lastMessageAt = Date.now();
+      const socket = new WebSocket(WS_URL);
+      ws = socket;
+      let welcomed = false;
 
-      const ws = new WebSocket(WS_URL);
-      wsRef.current = ws;
+      const send = (msg: ClientMessage) => {
+        if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(msg));
+      };
 
-      ws.onopen = () => {
-        console.log('[claudeborne] Connected to server');
-        setConnected(true);
+      /** Reconnecting can't fix a version mismatch — show why and stop */
+      const fail = (message: string) => {
+        console.error(`[claudeborne] ${message}`);
+        setProtocolError(message);
+        socket.close(WS_CLOSE_INCOMPATIBLE);
       };
 
-      ws.onmessage = (e) => {
+      socket.onopen = () => {
+        // The server streams nothing until it has checked our protocol version
+        send({ type: 'hello', payload: { protocolVersion: PROTOCOL_VERSION, client: 'web' } });
+      };
+
+      socket.onmessage = (e) => {
+        lastMessageAt = Date.now();
+        if (welcomed) setConnection('live');
+
+        let msg: ServerMessage | null = null;
         try {
-          const msg: WsMessage = JSON.parse(e.data as string);
+          msg = parseServerMessage(JSON.parse(e.data as string));
+        } catch {
+          // Not JSON — reported below
+        }
+        if (!msg) {
+          console.warn('[claudeborne] Ignoring malformed message from server', e.data);
+          return;
+        }
 
-          if (msg.type === 'scene_init') {
-            const payload = msg.payload as { sceneId: SceneId };
-            setSceneId(payload.sceneId);
-          } else if (msg.type === 'event') {
-            pushEvent(msg.payload as ClaudeEvent);
+        switch (msg.type) {
+          case 'welcome': {
+            const mismatch = describeProtocolMismatch(PROTOCOL_VERSION, msg.payload.protocolVersion);
+            if (mismatch) {
+              fail(mismatch);
+              return;
+            }
+            console.log('[claudeborne] Connected to server');
+            welcomed = true;
+            attempt = 0;
+            setConnection('live');
+            setSend(send);
+            // Catch up on anything that happened while we were away
+            send({ type: 'request_snapshot', payload: {} });
+            break;
           }
-        } catch {
-          // ignore malformed messages
+          case 'protocol_error':
+            fail(msg.payload.message);
+            break;
+          case 'ping':
+            send({ type: 'pong', payload: {} });
+            break;
+          case 'scene_init':
+          case 'scene_change':
+            setSceneId(msg.payload.sceneId, msg.payload.project);
+            break;
+          case 'snapshot':
+            applySnapshot(msg.payload);
+            break;
+          case 'event':
+            pushEvent(msg.payload);
+            if (msg.payload.type === 'awaiting_input') notifyAwaitingInput(msg.payload);
+            break;
         }
       };
 
-      ws.onclose = () => {
-        console.log('[claudeborne] Disconnected, reconnecting...');
-        setConnected(false);
-        reconnectTimer.current = setTimeout(connect, RECONNECT_INTERVAL);
+      socket.onclose = () => {
+        // Ignore sockets already given up on by the silence check
+        if (ws !== socket) return;
+        dropConnection('Disconnected');
       };
 
-      ws.onerror = () => {
-        ws.close();
+      socket.onerror = () => {
+        socket.close();
       };
     }
 
+    /** Forget the current socket and schedule the next attempt */
+    function dropConnection(reason: string) {
+      ws = null;
+      setSend(null);
+      if (disposed || useGameStore.getState().protocolError) return;
+
+      setConnection('offline');
+      const delay = reconnectDelay(attempt++);
+      console.log(`[claudeborne] ${reason}, reconnecting in ${(delay / 1000).toFixed(1)}s...`);
+      reconnectTimer = setTimeout(connect, delay);
+    }
+
+    // A half-open connection (or a connect that hangs) never closes by
+    // itself — notice the silence
+    const silenceTimer = setInterval(() => {
+      if (!ws || ws.readyState === WebSocket.CLOSING || ws.readyState === WebSocket.CLOSED) return;
+      const quiet = Date.now() - lastMessageAt;
+      if (quiet >= DEAD_AFTER_MS) {
+        // Closing a dead link can hang on the handshake, so don't wait for it
+        ws.close();
+        dropConnection('Server went silent');
+      } else if (quiet >= STALE_AFTER_MS && useGameStore.getState().connection === 'live') {
+        setConnection('stale');
+      }
+    }, SILENCE_CHECK_MS);
+
     connect();
 
     return () => {
-      clearTimeout(reconnectTimer.current);
-      wsRef.current?.close();
+      disposed = true;
+      clearTimeout(reconnectTimer);
+      clearInterval(silenceTimer);
+      ws?.close();
     };
-  }, [setConnected, setSceneId, pushEvent]);
+  }, [setConnection, setSend, setSceneId, pushEvent, applySnapshot, setProtocolError]);
 }
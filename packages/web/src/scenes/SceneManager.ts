@@ -4,17 +4,26 @@
 // the correct layer order.
 // ============================================
 
-import type { SceneId, AnimationState } from '@claudeborne/shared';
-import { SCENES } from '@claudeborne/shared';
+import type {
+  SceneId,
+  AnimationState,
+  CharacterType,
+  ClaudeEvent,
+  ErrorSeverity,
+  OpenToolCall,
+  SceneEffect,
+} from '@claudeborne/shared';
+import { SCENES, DEFAULT_SESSION_ID, getSessionLabel } from '@claudeborne/shared';
 import { Camera, WORLD_WIDTH, WORLD_HEIGHT } from '../engine/camera';
-import { ParticleSystem } from '../engine/particles';
-import { drawVignette, drawFog, drawLighting, drawScreenFlash } from '../engine/effects';
-import type { Light } from '../engine/types';
-import { CharacterController } from '../characters/CharacterController';
+import { ParticleSystem, PARTICLE_PRESETS } from '../engine/particles';
+import { drawVignette, drawFog, drawLighting, drawScreenFlash, drawSummonSign } from '../engine/effects';
+import type { Light, Point } from '../engine/types';
+import { CharacterController, type StateCue } from '../characters/CharacterController';
 import { loadCharacterSprites } from '../characters/index';
 import { ImageSpriteManager } from '../engine/imageSprite';
-import { HUNTER_ANIMATIONS, HUNTER_FRAME_SIZE } from '../characters/hunterLpc';
-import { KNIGHT_ANIMATIONS, KNIGHT_FRAME_SIZE } from '../characters/knightLpc';
+import type { LpcOutfit } from '../engine/lpcOutfit';
+import { HUNTER_ANIMATIONS, HUNTER_FRAME_SIZE, HUNTER_TRANSITION_CLIPS } from '../characters/hunterLpc';
+import { KNIGHT_ANIMATIONS, KNIGHT_FRAME_SIZE, KNIGHT_TRANSITION_CLIPS } from '../characters/knightLpc';
 import { SceneTransition } from './SceneTransition';
 import {
   SCENE_PALETTES,
@@ -26,9 +35,16 @@ import {
   type SceneProp,
 } from './sceneConfigs';
 
+/** Calls running longer than this show how long they have been going */
+const LONG_CALL_MS = 10_000;
+
 /**
  * SceneManager orchestrates all visual elements of a scene:
- * background, fog, props, character, particles, lighting, vignette, UI text.
+ * background, fog, props, characters, particles, lighting, vignette, UI text.
+ *
+ * Each active Claude Code session gets its own CharacterController,
+ * keyed by session id. Characters walk in when their session starts
+ * and walk off (and are dropped) when it ends.
  *
  * Drawing order (back to front):
  * 1. Background fill (walls/ceiling)
@@ -36,18 +52,20 @@ import {
  * 3. Floor grid lines
  * 4. Fog effect
  * 5. Background props (behind character)
- * 6. Character
+ * 6. Characters
  * 7. Foreground props (in front of character)
  * 8. Particles
  * 9. Lighting overlay
- * 10. Screen flash (stagger)
+ * 9b. Summon signs over characters awaiting the player or summoning
+ * 10. Screen flash (stagger, embark, duel, trap)
  * 11. Vignette
- * 12. UI text (scene name, animation state)
+ * 12. UI text (scene name, animation state, session labels, tool calls)
  * 13. Scene transition overlay
  */
 export class SceneManager {
   sceneId: SceneId;
-  character: CharacterController;
+  /** One character per active session, keyed by session id */
+  characters: Map<string, CharacterController> = new Map();
   particles: ParticleSystem;
   lights: Light[];
   transition: SceneTransition;
@@ -57,6 +75,23 @@ export class SceneManager {
   private time: number = 0;
   private frame: number = 0;
   private currentAnimState: AnimationState = 'idle';
+  /** Characters walking off-screen, removed once they arrive */
+  private leaving: Set<CharacterController> = new Set();
+  /** Display labels per session (project folder name) */
+  private labels: Map<string, string> = new Map();
+  /** Tool calls each session has running, oldest first */
+  private openCalls: Map<string, OpenToolCall[]> = new Map();
+  private lpcReady: boolean = false;
+  /** The scene's title card is up — characters walk in once it ends */
+  private showingTitleCard: boolean = false;
+  /** Layered outfits per character type, once loaded */
+  private outfits: Partial<Record<CharacterType, LpcOutfit>> = {};
+  /** One-off full-screen flash, fading out over its duration */
+  private flash: { color: string; alpha: number; remaining: number; duration: number } | null = null;
+  /** Temporary lights added on top of the scene's own, fading out */
+  private flares: Array<{ light: Light; remaining: number; duration: number }> = [];
+  /** Camera shake after a heavy hit, in world pixels, fading out */
+  private shake: { magnitude: number; remaining: number; duration: number } | null = null;
   private sceneConfig: (typeof SCENES)[number];
   private spriteManager: ImageSpriteManager;
   private backgroundImage: HTMLImageElement | null = null;
@@ -67,7 +102,11 @@ export class SceneManager {
   private bgFrameTimer: number = 0;
   private bgCurrentFrame: number = 0;
 
-  constructor(sceneId: SceneId) {
+  /**
+   * @param areaName Project the scene was chosen for — shown as the area
+   *   name on the title card, with the scene's own name beneath
+   */
+  constructor(sceneId: SceneId, private areaName: string | null = null) {
     this.sceneId = sceneId;
     this.sceneConfig = SCENES.find((s) => s.id === sceneId) ?? SCENES[0];
     this.particles = new ParticleSystem(500);
@@ -75,12 +114,6 @@ export class SceneManager {
     this.transition = new SceneTransition();
     this.spriteManager = new ImageSpriteManager();
 
-    // Create character at start position (off left edge for entrance)
-    const charType = this.sceneConfig.character;
-    const idlePos = SCENE_ACTION_POSITIONS[this.sceneId]?.idle ?? { x: 192, y: 172 };
-    const startPos = { x: -20, y: idlePos.y };
-    this.character = new CharacterController(charType, startPos);
-
     // Load background image if available
     this.loadBackgroundImage();
 
@@ -119,30 +152,16 @@ export class SceneManager {
   }
 
   /**
-   * Load LPC image sprites in the background. Once loaded, the
+   * Load LPC image sprites in the background. Once loaded, every
    * CharacterController switches from programmatic to image-based rendering.
    */
   private loadLpcSprites(): void {
-    const charType = this.sceneConfig.character;
     loadCharacterSprites(this.spriteManager)
-      .then(() => {
-        // Wire up LPC sprites to the character controller
-        if (charType === 'hunter') {
-          this.character.initLpc(
-            this.spriteManager,
-            'hunter_',
-            HUNTER_FRAME_SIZE,
-            0.75,
-            HUNTER_ANIMATIONS,
-          );
-        } else if (charType === 'knight') {
-          this.character.initLpc(
-            this.spriteManager,
-            'knight_',
-            KNIGHT_FRAME_SIZE,
-            0.75,
-            KNIGHT_ANIMATIONS,
-          );
+      .then((outfits) => {
+        this.outfits = outfits;
+        this.lpcReady = true;
+        for (const character of this.characters.values()) {
+          this.initCharacterLpc(character);
         }
       })
       .catch((err) => {
@@ -151,6 +170,92 @@ export class SceneManager {
       });
   }
 
+  /**
+   * Wire up LPC sprites to a character controller.
+   */
+  private initCharacterLpc(character: CharacterController): void {
+    const charType = this.sceneConfig.character;
+    if (charType === 'hunter') {
+      character.initLpc(
+        this.spriteManager,
+        'hunter_',
+        HUNTER_FRAME_SIZE,
+        0.75,
+        HUNTER_ANIMATIONS,
+        HUNTER_TRANSITION_CLIPS,
+        this.outfits.hunter,
+      );
+    } else if (charType === 'knight') {
+      character.initLpc(
+        this.spriteManager,
+        'knight_',
+        KNIGHT_FRAME_SIZE,
+        0.75,
+        KNIGHT_ANIMATIONS,
+        KNIGHT_TRANSITION_CLIPS,
+        this.outfits.knight,
+      );
+    }
+  }
+
+  /**
+   * Spawn a character for a session, placed off the left edge so it can
+   * walk in. Returns the existing character if the session already has one.
+   */
+  addCharacter(sessionId: string, label?: string): CharacterController {
+    if (label) this.labels.set(sessionId, label);
+    const existing = this.characters.get(sessionId);
+    if (existing) return existing;
+
+    const idlePos = SCENE_ACTION_POSITIONS[this.sceneId]?.idle ?? { x: 192, y: 172 };
+    const character = new CharacterController(this.sceneConfig.character, { x: -20, y: idlePos.y });
+    character.slotOffset = this.nextSlotOffset();
+    character.setActionPositions(SCENE_ACTION_POSITIONS[this.sceneId]);
+    character.onStateStart = (state, at, cue) => this.onStateStart(character, state, at, cue);
+    if (this.lpcReady) this.initCharacterLpc(character);
+
+    this.characters.set(sessionId, character);
+    return character;
+  }
+
+  /**
+   * Send a session's character off-screen. It is dropped once it arrives.
+   * The death banner only plays when the last character leaves.
+   */
+  removeCharacter(sessionId: string): void {
+    const character = this.characters.get(sessionId);
+    if (!character) return;
+    this.characters.delete(sessionId);
+    this.labels.delete(sessionId);
+    this.openCalls.delete(sessionId);
+
+    character.setState('exit');
+    this.leaving.add(character);
+    if (this.characters.size === 0) {
+      this.transition.startDeath(this.sceneConfig.deathText);
+    }
+  }
+
+  /** Replace the tool calls a session has running */
+  setOpenCalls(sessionId: string, calls: OpenToolCall[]): void {
+    if (calls.length > 0) {
+      this.openCalls.set(sessionId, calls);
+    } else {
+      this.openCalls.delete(sessionId);
+    }
+  }
+
+  /**
+   * Pick the free slot closest to the centre: 0, -28, +28, -56, +56, ...
+   */
+  private nextSlotOffset(): number {
+    const taken = new Set([...this.characters.values()].map((c) => c.slotOffset));
+    for (let i = 0; ; i++) {
+      const offset = (i % 2 === 0 ? 1 : -1) * Math.ceil(i / 2) * 28;
+      if (!taken.has(offset)) return offset;
+    }
+  }
+
   /**
    * Initialize the scene — set up particles, lights, character, props.
    * Triggers the scene entrance transition.
@@ -167,7 +272,9 @@ export class SceneManager {
     this.lights = [...SCENE_LIGHTS[this.sceneId]];
 
     // Set up character action positions
-    this.character.setActionPositions(SCENE_ACTION_POSITIONS[this.sceneId]);
+    for (const character of this.characters.values()) {
+      character.setActionPositions(SCENE_ACTION_POSITIONS[this.sceneId]);
+    }
 
     // Start scene entrance transition
     const gameNames: Record<string, string> = {
@@ -175,22 +282,46 @@ export class SceneManager {
       'dark-souls': 'Dark Souls',
       'elden-ring': 'Elden Ring',
     };
+    const gameName = gameNames[this.sceneConfig.game] ?? this.sceneConfig.game;
+    this.showingTitleCard = true;
     this.transition.startSceneEntry(
-      this.sceneConfig.name,
-      gameNames[this.sceneConfig.game] ?? this.sceneConfig.game,
+      this.areaName ?? this.sceneConfig.name,
+      this.areaName ? `${this.sceneConfig.name} \u2014 ${gameName}` : gameName,
       () => {
-        // When transition completes, character walks to idle position
-        this.character.setState('enter');
-        // After a beat, switch to idle
-        setTimeout(() => {
-          if (this.currentAnimState === 'enter' || this.currentAnimState === 'idle') {
-            this.character.setState('idle');
+        // When transition completes, characters walk to their idle positions
+        // (ones already busy with an action keep walking to it)
+        this.showingTitleCard = false;
+        for (const character of this.characters.values()) {
+          if (character.latestState === 'idle' || character.latestState === 'enter') {
+            this.enterCharacter(character);
           }
-        }, 800);
+        }
       },
     );
   }
 
+  /**
+   * Walk a newly added session's character on stage. While the title
+   * card shows, the card's end walks everyone in instead.
+   */
+  enterSession(sessionId: string): void {
+    const character = this.characters.get(sessionId);
+    if (character && !this.showingTitleCard) this.enterCharacter(character);
+  }
+
+  /**
+   * Walk a character in, then settle into idle unless an event
+   * has given it something else to do in the meantime.
+   */
+  private enterCharacter(character: CharacterController): void {
+    character.setState('enter');
+    setTimeout(() => {
+      if (character.latestState === 'enter' || character.latestState === 'idle') {
+        character.setState('idle');
+      }
+    }, 800);
+  }
+
   /**
    * Clean up resources when this scene is replaced.
    */
@@ -199,37 +330,206 @@ export class SceneManager {
   }
 
   /**
-   * Handle a new animation state from an event.
+   * React to one Claude event. Called for every event, in order — a
+   * repeated state replays its animation and effects, so a second error
+   * staggers again and a second commit kindles the bonfire again.
    */
-  handleAnimationState(state: AnimationState): void {
+  handleEvent(
+    event: ClaudeEvent,
+    animation: AnimationState,
+    sessionId: string,
+    openCalls: OpenToolCall[] = [],
+  ): void {
+    this.lastEventType = event.type;
+    if (animation !== 'exit') {
+      // Events without a cwd keep the project name the session already has
+      const named = this.labels.has(sessionId) && !event.session?.cwd;
+      this.addCharacter(sessionId, named ? undefined : getSessionLabel(event.session ?? { id: sessionId }));
+      this.setOpenCalls(sessionId, openCalls);
+    }
+    this.handleAnimationState(animation, sessionId, event.severity, event.effect);
+  }
+
+  /**
+   * Handle a new animation state from an event, for the given session's
+   * character. Events without a session drive the default character.
+   * `severity` picks a light or heavy stagger; errors without one hit hard.
+   * Effects wait for the character to reach the state — see onStateStart.
+   */
+  handleAnimationState(
+    state: AnimationState,
+    sessionId: string = DEFAULT_SESSION_ID,
+    severity: ErrorSeverity = 'severe',
+    effect?: SceneEffect,
+  ): void {
     this.currentAnimState = state;
 
     // Special transitions
     if (state === 'exit') {
-      this.transition.startDeath(this.sceneConfig.deathText);
-      this.character.setState('exit');
+      this.removeCharacter(sessionId);
       return;
     }
 
-    if (state === 'victory') {
-      this.character.setState('victory');
-      // Delay the banner slightly so the victory animation plays first
-      setTimeout(() => {
-        this.transition.startVictory(this.sceneConfig.victoryText);
-      }, 500);
+    const character = this.addCharacter(sessionId);
+
+    if (state === 'enter') {
+      if (effect) this.playEffect(effect, character.position);
+      // Resumed, cleared and compacted sessions start again while their
+      // character is already on stage — only newcomers get the title card
+      const offStage = character.position.x < 0;
+      if (offStage && this.characters.size === 1) {
+        // First session on stage — re-init the scene with its title card
+        this.init();
+      } else {
+        this.enterCharacter(character);
+      }
       return;
     }
 
-    if (state === 'enter') {
-      // Re-init the scene (new session)
-      const idlePos = SCENE_ACTION_POSITIONS[this.sceneId]?.idle ?? { x: 192, y: 172 };
-      this.character.position = { x: -20, y: idlePos.y };
-      this.init();
+    character.setState(state, { severity, effect });
+  }
+
+  /**
+   * A character has started a state, possibly after waiting in its queue.
+   * Its flourishes play now, where the state is performed.
+   */
+  private onStateStart(character: CharacterController, state: AnimationState, at: Point, cue?: StateCue): void {
+    if (cue?.effect) this.playEffect(cue.effect, at);
+
+    switch (state) {
+      case 'victory':
+        // Delay the banner slightly so the victory animation plays first
+        setTimeout(() => {
+          this.transition.startVictory(this.sceneConfig.victoryText);
+        }, 500);
+        break;
+      case 'stagger':
+        this.stagger(at, cue?.severity ?? 'severe');
+        break;
+      default:
+        this.playStateEffects(state, character, at);
+    }
+  }
+
+  /**
+   * A minor failure is a flinch; a severe one bleeds more and shakes the
+   * camera. Either way the character plays the stagger through and the
+   * state graph brings it back to idle.
+   */
+  private stagger({ x, y }: Point, severity: ErrorSeverity): void {
+    if (severity === 'minor') {
+      this.particles.burst(PARTICLE_PRESETS.blood(x, y - 20), 6);
+      this.flash = { color: '#ff0000', alpha: 0.15, remaining: 0.4, duration: 0.4 };
       return;
     }
 
-    // Normal state changes
-    this.character.setState(state);
+    this.particles.burst(PARTICLE_PRESETS.blood(x, y - 20), 24);
+    this.flash = { color: '#ff0000', alpha: 0.4, remaining: 1.0, duration: 1.0 };
+    this.shake = { magnitude: 3, remaining: 0.5, duration: 0.5 };
+  }
+
+  /**
+   * One-off particle and light flourishes for states that mark a moment
+   * rather than an ongoing activity. Anchored where the state is performed.
+   */
+  private playStateEffects(state: AnimationState, character: CharacterController, { x, y }: Point): void {
+    switch (state) {
+      case 'embark':
+        // A new quest begins — grace rises and the screen glints gold
+        this.particles.burst(PARTICLE_PRESETS.grace(x, y - 20), 30);
+        this.flash = { color: '#ffd700', alpha: 0.2, remaining: 0.6, duration: 0.6 };
+        break;
+
+      case 'dismiss': {
+        // The summon departs — souls drift up beside the character
+        const side = character.facing === 'left' ? -1 : 1;
+        this.particles.burst(PARTICLE_PRESETS.souls(x + side * 20, y - 16), 25);
+        break;
+      }
+
+      case 'kindle':
+        // Resting at the bonfire — embers flare and the fire burns brighter
+        this.particles.burst(PARTICLE_PRESETS.embers(x, y - 6), 30);
+        this.addFlare(x, y - 10, 0.6, 3);
+        break;
+
+      case 'duel':
+        // Tests are a boss fight — the light dims and a fog gate rises ahead
+        this.particles.burst({ ...PARTICLE_PRESETS.souls(x + 30, y - 10), colors: ['#cccccc', '#ffffff', '#999999'] }, 30);
+        this.flash = { color: '#000000', alpha: 0.35, remaining: 1.0, duration: 1.0 };
+        break;
+
+      case 'smith':
+        // Builds are smithing — sparks fly from the anvil
+        this.particles.burst({ ...PARTICLE_PRESETS.fire(x + 8, y - 16), spread: 2.0, gravity: 80 }, 20);
+        break;
+
+      case 'seal':
+        // A commit kindles the bonfire — flames leap and the light swells
+        this.particles.burst(PARTICLE_PRESETS.fire(x, y - 4), 40);
+        this.particles.burst(PARTICLE_PRESETS.embers(x, y - 10), 20);
+        this.addFlare(x, y - 10, 0.9, 2.5);
+        break;
+
+      case 'dispatch':
+        // A push sends word out — a streak of grace shoots skyward
+        this.particles.burst({ ...PARTICLE_PRESETS.grace(x, y - 30), spread: 0.25, speedMin: 60, speedMax: 120 }, 35);
+        break;
+
+      case 'gather':
+        // Installing packages — souls drift in to be collected
+        this.particles.burst({ ...PARTICLE_PRESETS.souls(x, y - 24), angle: Math.PI / 2, spread: Math.PI * 2 }, 25);
+        break;
+
+      case 'summon': {
+        // A subagent is called — a phantom's souls gather over the sign
+        const side = character.facing === 'left' ? -1 : 1;
+        this.particles.burst({ ...PARTICLE_PRESETS.souls(x + side * 24, y - 8), colors: ['#e8f0ff', '#ffffff', '#aabbdd'] }, 20);
+        break;
+      }
+
+      case 'channel':
+        // An MCP tool draws on outside power — pale sorcery swirls around the character
+        this.particles.burst({ ...PARTICLE_PRESETS.souls(x, y - 20), colors: ['#66ccff', '#99ddff', '#3366cc'], spread: Math.PI * 2 }, 25);
+        break;
+
+      case 'trap':
+        // Destructive commands spring a trap — an orange warning flash
+        this.flash = { color: '#ff4400', alpha: 0.35, remaining: 0.6, duration: 0.6 };
+        this.shake = { magnitude: 2, remaining: 0.3, duration: 0.3 };
+        break;
+    }
+  }
+
+  /** A flourish named by a custom mapping rule, played at `x`, `y` */
+  private playEffect(effect: SceneEffect, { x, y }: Point): void {
+    switch (effect) {
+      case 'fire':
+      case 'embers':
+      case 'souls':
+      case 'grace':
+      case 'blood':
+        this.particles.burst(PARTICLE_PRESETS[effect](x, y - 20), 25);
+        break;
+      case 'flash':
+        this.flash = { color: SCENE_PALETTES[this.sceneId].light, alpha: 0.3, remaining: 0.6, duration: 0.6 };
+        break;
+      case 'shake':
+        this.shake = { magnitude: 2, remaining: 0.4, duration: 0.4 };
+        break;
+      case 'flare':
+        this.addFlare(x, y - 10, 0.7, 2);
+        break;
+    }
+  }
+
+  /** A temporary light of the scene's own colour, fading out over `seconds` */
+  private addFlare(x: number, y: number, intensity: number, seconds: number): void {
+    this.flares.push({
+      light: { x, y, radius: 90, color: SCENE_PALETTES[this.sceneId].light, intensity, flicker: 0.4 },
+      remaining: seconds,
+      duration: seconds,
+    });
   }
 
   /**
@@ -248,9 +548,28 @@ export class SceneManager {
       }
     }
 
-    this.character.update(dt);
+    for (const character of this.characters.values()) {
+      character.update(dt);
+    }
+    for (const character of this.leaving) {
+      character.update(dt);
+      if (character.isSettled) this.leaving.delete(character);
+    }
     this.particles.update(dt);
     this.transition.update(dt);
+
+    if (this.flash) {
+      this.flash.remaining -= dt;
+      if (this.flash.remaining <= 0) this.flash = null;
+    }
+    if (this.shake) {
+      this.shake.remaining -= dt;
+      if (this.shake.remaining <= 0) this.shake = null;
+    }
+    for (const flare of this.flares) {
+      flare.remaining -= dt;
+    }
+    this.flares = this.flares.filter((f) => f.remaining > 0);
   }
 
   /**
@@ -266,6 +585,10 @@ export class SceneManager {
 
     // ---- World-space drawing ----
     camera.applyTransform(ctx);
+    if (this.shake) {
+      const m = this.shake.magnitude * (this.shake.remaining / this.shake.duration);
+      ctx.translate(Math.round((Math.random() - 0.5) * 2 * m), Math.round((Math.random() - 0.5) * 2 * m));
+    }
 
     if (this.backgroundImage) {
       if (this.bgFrameCount > 0) {
@@ -322,8 +645,12 @@ export class SceneManager {
       }
     }
 
-    // 6. Character
-    this.character.draw(ctx, 1);
+    // 6. Characters (back to front by depth)
+    const onStage = [...this.characters.values(), ...this.leaving]
+      .sort((a, b) => a.position.y - b.position.y);
+    for (const character of onStage) {
+      character.draw(ctx, 1);
+    }
 
     // 7. Foreground props (only for procedural scenes)
     if (!this.backgroundImage) {
@@ -339,12 +666,28 @@ export class SceneManager {
     this.particles.draw(ctx);
 
     // 9. Lighting overlay (in world space)
-    drawLighting(ctx, WORLD_WIDTH, WORLD_HEIGHT, this.lights, palette.ambientDarkness);
+    const flareLights = this.flares.map((f) => ({
+      ...f.light,
+      intensity: f.light.intensity * (f.remaining / f.duration),
+    }));
+    drawLighting(ctx, WORLD_WIDTH, WORLD_HEIGHT, [...this.lights, ...flareLights], palette.ambientDarkness);
+
+    // 9b. Summon signs — drawn over the lighting so they read in the dark
+    for (const character of this.characters.values()) {
+      const { x, y } = character.position;
+      if (character.currentState === 'awaiting') {
+        drawSummonSign(ctx, x, y - 60, this.time);
+      } else if (character.currentState === 'summon') {
+        // A white sign on the ground beside the character, for the phantom
+        const side = character.facing === 'left' ? -1 : 1;
+        drawSummonSign(ctx, x + side * 24, y - 4, this.time, '#e8f0ff');
+      }
+    }
 
-    // 10. Stagger screen flash (world space)
-    if (this.currentAnimState === 'stagger') {
-      const flashAlpha = 0.25 * Math.abs(Math.sin(this.frame * 0.2));
-      drawScreenFlash(ctx, WORLD_WIDTH, WORLD_HEIGHT, '#ff0000', flashAlpha);
+    // 10. Screen flash (world space) — one-off, fading out
+    if (this.flash) {
+      const flashAlpha = this.flash.alpha * (this.flash.remaining / this.flash.duration);
+      drawScreenFlash(ctx, WORLD_WIDTH, WORLD_HEIGHT, this.flash.color, flashAlpha);
     }
 
     // 11. Vignette (world space)
@@ -362,6 +705,8 @@ export class SceneManager {
     const gameW = WORLD_WIDTH * scale;
     const gameH = WORLD_HEIGHT * scale;
     this.drawUI(ctx, gameW, gameH, offset.x, offset.y);
+    this.drawSessionLabels(ctx, camera);
+    this.drawOpenCalls(ctx, camera);
 
     // 13. Scene transition overlay (always on top, screen space)
     this.transition.draw(ctx, screenW, screenH);
@@ -446,6 +791,65 @@ export class SceneManager {
     );
   }
 
+  /**
+   * Name each character after its project once more than one is on stage.
+   */
+  private drawSessionLabels(ctx: CanvasRenderingContext2D, camera: Camera): void {
+    if (this.characters.size < 2) return;
+
+    ctx.globalAlpha = 0.5;
+    ctx.fillStyle = '#aaaaaa';
+    ctx.font = '10px monospace';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'alphabetic';
+    for (const [sessionId, character] of this.characters) {
+      const label = this.labels.get(sessionId);
+      if (!label) continue;
+      const p = camera.worldToScreen(character.position.x, character.position.y - 50);
+      ctx.fillText(label, p.x, p.y);
+    }
+    ctx.globalAlpha = 1;
+    ctx.textAlign = 'left';
+  }
+
+  /**
+   * Above each busy character: a pip per call when several run at once,
+   * and the elapsed time once the oldest has run for a while.
+   */
+  private drawOpenCalls(ctx: CanvasRenderingContext2D, camera: Camera): void {
+    const now = Date.now();
+    ctx.fillStyle = '#d4a017';
+    ctx.font = '10px monospace';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'alphabetic';
+    for (const [sessionId, calls] of this.openCalls) {
+      const character = this.characters.get(sessionId);
+      if (!character) continue;
+      // Clear of the session label when there is one
+      const p = camera.worldToScreen(character.position.x, character.position.y - 50);
+      let y = this.characters.size > 1 ? p.y - 12 : p.y;
+
+      if (calls.length > 1) {
+        const pulse = 0.5 + 0.3 * Math.sin(this.time * 4);
+        calls.forEach((_, i) => {
+          // The newest call is the one being acted out
+          ctx.globalAlpha = i === calls.length - 1 ? 0.9 : pulse;
+          ctx.fillRect(Math.round(p.x + (i - (calls.length - 1) / 2) * 6 - 2), y - 4, 4, 4);
+        });
+        y -= 8;
+      }
+
+      const elapsed = now - calls[0].startedAt;
+      if (elapsed >= LONG_CALL_MS) {
+        const seconds = Math.floor(elapsed / 1000);
+        ctx.globalAlpha = 0.7;
+        ctx.fillText(`\u29D7 ${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`, p.x, y);
+      }
+    }
+    ctx.globalAlpha = 1;
+    ctx.textAlign = 'left';
+  }
+
   /**
    * Draw UI text (scene name, animation state) in screen space.
    */
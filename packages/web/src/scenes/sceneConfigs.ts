@@ -75,11 +75,24 @@ export const SCENE_ACTION_POSITIONS: Record<SceneId, Partial<Record<AnimationSta
     forge:     { x: 300, y: 182 },   // far right, near building pillars
     meditate:  { x: 192, y: 184 },   // center courtyard, sitting
     rest:      { x: 192, y: 186 },   // center courtyard, resting
+    dormant:   { x: 192, y: 186 },   // asleep where it rested
     idle:      { x: 192, y: 182 },   // center courtyard standing
     stagger:   { x: 192, y: 182 },   // stumble in place
     victory:   { x: 192, y: 180 },   // center, triumphant
     enter:     { x: 192, y: 182 },   // walk to center
     exit:      { x: 370, y: 182 },   // walk off right
+    embark:    { x: 192, y: 182 },   // center, weapon drawn
+    dismiss:   { x: 192, y: 182 },   // center, summon fades beside
+    kindle:    { x: 192, y: 186 },   // sit in the courtyard
+    duel:      { x: 240, y: 182 },   // squaring up to a beast
+    smith:     { x: 300, y: 182 },   // at the pillars, like forge
+    seal:      { x: 100, y: 182 },   // lighting the lamp
+    dispatch:  { x: 192, y: 180 },
+    gather:    { x: 250, y: 180 },   // by the red-cloaked figure
+    scout:     { x: 300, y: 180 },   // at the gate, looking out
+    survey:    { x: 192, y: 180 },
+    summon:    { x: 160, y: 182 },   // room beside for the phantom
+    channel:   { x: 100, y: 182 },   // among the candelabras
   },
   'firelink-shrine': {
     inscribe:  { x: 110, y: 188 },   // left, near rocks
@@ -87,11 +100,24 @@ export const SCENE_ACTION_POSITIONS: Record<SceneId, Partial<Record<AnimationSta
     forge:     { x: 280, y: 186 },   // far right
     meditate:  { x: 165, y: 186 },   // near bonfire
     rest:      { x: 160, y: 188 },   // sitting at bonfire
+    dormant:   { x: 160, y: 188 },
     idle:      { x: 165, y: 185 },   // standing near bonfire
     stagger:   { x: 165, y: 185 },
     victory:   { x: 175, y: 183 },
     enter:     { x: 165, y: 185 },
     exit:      { x: 370, y: 185 },   // walk off right
+    embark:    { x: 165, y: 185 },
+    dismiss:   { x: 165, y: 185 },
+    kindle:    { x: 160, y: 188 },   // rest at the bonfire
+    duel:      { x: 230, y: 185 },
+    smith:     { x: 280, y: 186 },
+    seal:      { x: 175, y: 186 },   // kindling the bonfire
+    dispatch:  { x: 165, y: 183 },
+    gather:    { x: 240, y: 186 },
+    scout:     { x: 280, y: 186 },
+    survey:    { x: 165, y: 185 },
+    summon:    { x: 140, y: 186 },
+    channel:   { x: 110, y: 188 },
   },
   'site-of-grace': {
     inscribe:  { x: 110, y: 178 },   // left, near ruins/gravestones
@@ -99,11 +125,24 @@ export const SCENE_ACTION_POSITIONS: Record<SceneId, Partial<Record<AnimationSta
     forge:     { x: 310, y: 176 },   // far right, smithing area
     meditate:  { x: 192, y: 176 },   // at the grace
     rest:      { x: 192, y: 178 },   // sitting at grace
+    dormant:   { x: 192, y: 178 },
     idle:      { x: 192, y: 176 },   // center, on grassy ground
     stagger:   { x: 192, y: 176 },
     victory:   { x: 192, y: 174 },
     enter:     { x: 192, y: 176 },
     exit:      { x: 370, y: 176 },   // walk off right
+    embark:    { x: 192, y: 176 },
+    dismiss:   { x: 192, y: 176 },
+    kindle:    { x: 192, y: 178 },   // rest at the grace
+    duel:      { x: 250, y: 176 },
+    smith:     { x: 310, y: 176 },
+    seal:      { x: 192, y: 177 },   // touching the grace
+    dispatch:  { x: 192, y: 174 },
+    gather:    { x: 260, y: 175 },
+    scout:     { x: 310, y: 176 },   // toward the open fields
+    survey:    { x: 192, y: 176 },
+    summon:    { x: 160, y: 177 },
+    channel:   { x: 110, y: 178 },
   },
 };
 
@@ -2,30 +2,113 @@ import { create } from 'zustand';
 import type {
   SceneId,
   ClaudeEvent,
+  ClientMessage,
   AnimationState,
+  ErrorSeverity,
+  OpenToolCall,
+  StateSnapshot,
 } from '@claudeborne/shared';
-import { SCENES, eventToAnimation } from '@claudeborne/shared';
+import { SCENES, eventToAnimation, getSessionId } from '@claudeborne/shared';
+import { sceneBus } from './sceneBus';
+
+/**
+ * State of the link to the server: `connecting` until the handshake
+ * completes, `live` while messages flow, `stale` once the server has
+ * missed a ping, and `offline` while waiting to reconnect.
+ */
+export type ConnectionStatus = 'connecting' | 'live' | 'stale' | 'offline';
+
+/**
+ * Where a Claude Code session stands, as its character should show it.
+ * One-off reactions (effects, repeat staggers) travel on the sceneBus.
+ */
+export interface SessionView {
+  id: string;
+  cwd?: string;
+  animationState: AnimationState;
+  /** Severity of the error that caused a stagger */
+  severity?: ErrorSeverity;
+  /** Tool calls running right now, oldest first — `startedAt` on this page's clock */
+  openCalls: OpenToolCall[];
+  /** When this session last sent an event (ms since epoch) */
+  lastEventTime: number;
+}
+
+/**
+ * How long a session may go without events before its character sits
+ * down to rest, and later falls dormant. 0 disables a stage.
+ * Override with `?rest=<seconds>&dormant=<seconds>` in the page URL.
+ */
+export interface IdleTimeouts {
+  restMs: number;
+  dormantMs: number;
+}
+
+const DEFAULT_IDLE_TIMEOUTS: IdleTimeouts = {
+  restMs: 60_000,
+  dormantMs: 5 * 60_000,
+};
+
+/** States a quiet session may drift from into rest — never mid-tool-call */
+const RESTABLE_STATES: ReadonlySet<AnimationState> = new Set([
+  'idle', 'meditate', 'stagger', 'victory', 'embark', 'dismiss', 'rest',
+]);
+
+/**
+ * The calls an event says are open, with start times moved onto this
+ * page's clock (the server's may differ, and replays rewrite time).
+ */
+function localOpenCalls(event: ClaudeEvent, now: number): OpenToolCall[] | undefined {
+  return event.openCalls?.map((call) => ({
+    ...call,
+    startedAt: now - Math.max(0, event.timestamp - call.startedAt),
+  }));
+}
+
+function readIdleTimeouts(): IdleTimeouts {
+  const params = new URLSearchParams(window.location.search);
+  const seconds = (key: string, fallbackMs: number) => {
+    const n = Number(params.get(key));
+    return params.has(key) && Number.isFinite(n) && n >= 0 ? n * 1000 : fallbackMs;
+  };
+  return {
+    restMs: seconds('rest', DEFAULT_IDLE_TIMEOUTS.restMs),
+    dormantMs: seconds('dormant', DEFAULT_IDLE_TIMEOUTS.dormantMs),
+  };
+}
 
 interface GameState {
   // Connection
-  connected: boolean;
-  setConnected: (connected: boolean) => void;
+  connection: ConnectionStatus;
+  setConnection: (connection: ConnectionStatus) => void;
+  /** Sends a command to the server; null while there is no connection */
+  send: ((msg: ClientMessage) => void) | null;
+  setSend: (send: ((msg: ClientMessage) => void) | null) => void;
+  /** Why the server and this page can't talk (version mismatch) — no reconnecting */
+  protocolError: string | null;
+  setProtocolError: (message: string) => void;
 
   // Scene
   sceneId: SceneId | null;
-  setSceneId: (sceneId: SceneId) => void;
+  /** Project the server chose the scene for — the title card's area name */
+  areaName: string | null;
+  setSceneId: (sceneId: SceneId, areaName?: string) => void;
 
-  // Character animation
-  animationState: AnimationState;
-  setAnimationState: (state: AnimationState) => void;
+  // Active sessions, keyed by session id — one character each
+  sessions: Record<string, SessionView>;
 
-  // Events
+  // Events — each one is also emitted on the sceneBus
   lastEvent: ClaudeEvent | null;
   eventCount: number;
   pushEvent: (event: ClaudeEvent) => void;
+  /** Jump straight to the server's current state, without replaying animations */
+  applySnapshot: (snapshot: StateSnapshot) => void;
 
   // Idle tracking
   lastEventTime: number;
+  idleTimeouts: IdleTimeouts;
+  /** Move sessions that have gone quiet to rest, then dormant */
+  sweepIdle: (now: number) => void;
 
   // Scene cycling
   cycleScene: () => void;
@@ -35,34 +118,115 @@ interface GameState {
 }
 
 export const useGameStore = create<GameState>((set, get) => ({
-  connected: false,
-  setConnected: (connected) => set({ connected }),
+  connection: 'connecting',
+  setConnection: (connection) => set({ connection }),
+  send: null,
+  setSend: (send) => set({ send }),
+  protocolError: null,
+  setProtocolError: (protocolError) => set({ protocolError }),
 
   sceneId: null,
-  setSceneId: (sceneId) => set({ sceneId }),
-
-  animationState: 'idle',
-  setAnimationState: (animationState) => set({ animationState }),
+  areaName: null,
+  setSceneId: (sceneId, areaName) => set({ sceneId, areaName: areaName ?? null }),
 
   lastEvent: null,
   eventCount: 0,
+  sessions: {},
+
   pushEvent: (event) => {
-    const animation = eventToAnimation(event);
+    // Live events arrive with the server's resolution, custom rules included
+    const animation = event.animation ?? eventToAnimation(event);
+    const id = getSessionId(event);
+    const now = Date.now();
+    const sessions = { ...get().sessions };
+    if (event.type === 'session_end') {
+      delete sessions[id];
+    } else {
+      sessions[id] = {
+        id,
+        cwd: event.session?.cwd ?? sessions[id]?.cwd,
+        animationState: animation,
+        severity: event.severity,
+        // Only tool events (and turn ends) say what is open — others leave it be
+        openCalls: localOpenCalls(event, now) ?? sessions[id]?.openCalls ?? [],
+        lastEventTime: now,
+      };
+    }
     set({
+      sessions,
       lastEvent: event,
       eventCount: get().eventCount + 1,
-      animationState: animation,
-      lastEventTime: Date.now(),
+      lastEventTime: now,
     });
+    sceneBus.emit('event', { event, sessionId: id, animation, view: sessions[id] });
+  },
+
+  applySnapshot: (snapshot) => {
+    // Server timestamps onto this page's clock, as pushEvent does per event
+    const now = Date.now();
+    const skew = now - (snapshot.serverTime ?? now);
+    const sessions: Record<string, SessionView> = {};
+    for (const s of snapshot.sessions) {
+      const event = s.lastEvent;
+      sessions[s.id] = {
+        id: s.id,
+        cwd: s.cwd,
+        animationState: event.animation ?? eventToAnimation(event),
+        severity: event.severity,
+        openCalls: s.openCalls.map((call) => ({ ...call, startedAt: call.startedAt + skew })),
+        lastEventTime: event.timestamp + skew,
+      };
+    }
+    const lastEvent = snapshot.recent.at(-1) ?? null;
+    set({
+      sessions,
+      lastEvent,
+      eventCount: snapshot.eventCount,
+      lastEventTime: lastEvent ? lastEvent.timestamp + skew : get().lastEventTime,
+    });
+    // Effects are one-off flourishes — already played, never replayed
+    sceneBus.emit('snapshot', { sessions, lastEvent });
   },
 
   lastEventTime: Date.now(),
+  idleTimeouts: readIdleTimeouts(),
+
+  sweepIdle: (now) => {
+    const { sessions, idleTimeouts } = get();
+    let changed: Record<string, SessionView> | null = null;
+    for (const view of Object.values(sessions)) {
+      const state = view.animationState;
+      if (!RESTABLE_STATES.has(state) && state !== 'dormant') continue;
+      // A long call is quiet, not idle
+      if (view.openCalls.length > 0) continue;
+      const quiet = now - view.lastEventTime;
+      let next = state;
+      if (idleTimeouts.dormantMs > 0 && quiet >= idleTimeouts.dormantMs) {
+        next = 'dormant';
+      } else if (idleTimeouts.restMs > 0 && quiet >= idleTimeouts.restMs && state !== 'dormant') {
+        next = 'rest';
+      }
+      if (next === state) continue;
+      changed ??= { ...sessions };
+      changed[view.id] = { ...view, animationState: next };
+    }
+    if (!changed) return;
+    set({ sessions: changed });
+    for (const view of Object.values(changed)) {
+      if (view !== sessions[view.id]) sceneBus.emit('idle', { view });
+    }
+  },
 
   cycleScene: () => {
-    const { sceneId } = get();
+    const { sceneId, send } = get();
     const currentIdx = SCENES.findIndex((s) => s.id === sceneId);
-    const nextIdx = (currentIdx + 1) % SCENES.length;
-    set({ sceneId: SCENES[nextIdx].id, animationState: 'enter' });
+    const nextId = SCENES[(currentIdx + 1) % SCENES.length].id;
+    if (send) {
+      // The server switches every tab, this one included, via scene_change
+      send({ type: 'set_scene', payload: { sceneId: nextId } });
+    } else {
+      set({ sceneId: nextId });
+    }
   },
 
   getSceneConfig: () => {
@@ -0,0 +1,26 @@
+import type { AnimationState, ClaudeEvent } from '@claudeborne/shared';
+import { EventBus } from '../engine/eventBus';
+import type { SessionView } from './gameStore';
+
+/**
+ * What the scene reacts to, emitted by the store as it happens. The store
+ * holds where every session stands; the bus carries each step that got
+ * it there, so two errors in a row stagger twice and a burst of events
+ * between frames plays out in order.
+ */
+export interface SceneBusEvents {
+  /** Every live event, with the animation it resolved to */
+  event: {
+    event: ClaudeEvent;
+    sessionId: string;
+    animation: AnimationState;
+    /** The session once the event is applied — absent when it ended */
+    view?: SessionView;
+  };
+  /** A quiet session drifted into rest or dormancy */
+  idle: { view: SessionView };
+  /** The store jumped to the server's state — sync up without replaying anything */
+  snapshot: { sessions: Record<string, SessionView>; lastEvent: ClaudeEvent | null };
+}
+
+export const sceneBus = new EventBus<SceneBusEvents>();